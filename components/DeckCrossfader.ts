@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import type { CrossfaderCurve, CrossfaderState, MidiControlMessage } from '../types';
+import { CROSSFADER_CURVES, DEFAULT_CROSSFADER } from '../utils/crossfader';
+import { t } from '../utils/i18n';
+
+/**
+ * Default CC is the first of the undefined range, as CC 38, right after the
+ * master effects controls, is the LSB of data entry for RPNs and NRPNs.
+ */
+const DEFAULT_CC = 102;
+const TARGET = 'crossfader';
+
+/** A MIDI-learnable crossfader between deck A and deck B, with its curve. */
+@customElement('deck-crossfader')
+export class DeckCrossfader extends LitElement {
+  static override styles = css`
+    :host {
+      color: #fff;
+      font-weight: 600;
+      -webkit-font-smoothing: antialiased;
+    }
+    .crossfader {
+      display: flex;
+      gap: 8px;
+      align-items: center;
+    }
+    input[type=range] {
+      width: 30vmin;
+    }
+    select {
+      font: inherit;
+    }
+    button {
+      font: inherit;
+      cursor: pointer;
+      color: #fff;
+      background: #0006;
+      border: 1px solid #fff;
+      border-radius: 4px;
+      padding: 1px 5px;
+    }
+    .midi {
+      font-family: monospace;
+      visibility: hidden;
+      .show-cc & {
+        visibility: visible;
+      }
+      &.learn-mode {
+        color: orange;
+        border-color: orange;
+      }
+    }
+  `;
+
+  @property({ type: Object }) crossfader: CrossfaderState = { ...DEFAULT_CROSSFADER };
+  @property({ type: Boolean }) showCC = false;
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+
+  private readonly rerender = () => this.requestUpdate();
+  private readonly sendFeedback = () => {
+    this.midiDispatcher?.sendFeedback(TARGET, this.crossfader.position * 127);
+  };
+
+  private readonly handleControl = (e: Event) => {
+    const { target, kind, value } = (e as CustomEvent<MidiControlMessage>).detail;
+    if (target !== TARGET || kind !== 'cc') return;
+    this.setCrossfader({ ...this.crossfader, position: value / 127 });
+  };
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.midiDispatcher?.setDefault(TARGET, 'cc', DEFAULT_CC);
+    this.midiDispatcher?.addEventListener('control', this.handleControl);
+    this.midiDispatcher?.addEventListener('mappings-changed', this.rerender);
+    this.midiDispatcher?.addEventListener('feedback-sync', this.sendFeedback);
+    window.addEventListener('language-changed', this.rerender);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('control', this.handleControl);
+    this.midiDispatcher?.removeEventListener('mappings-changed', this.rerender);
+    this.midiDispatcher?.removeEventListener('feedback-sync', this.sendFeedback);
+    window.removeEventListener('language-changed', this.rerender);
+  }
+
+  override updated(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('crossfader')) {
+      this.sendFeedback();
+    }
+  }
+
+  private setCrossfader(crossfader: CrossfaderState) {
+    this.crossfader = crossfader;
+    this.dispatchEvent(
+      new CustomEvent<CrossfaderState>('crossfader-changed', { detail: crossfader }),
+    );
+  }
+
+  private toggleLearn() {
+    this.midiDispatcher?.learn(this.midiDispatcher.learningTarget === TARGET ? null : TARGET);
+  }
+
+  override render() {
+    const learning = this.midiDispatcher?.learningTarget === TARGET;
+    return html`<div class=${classMap({ crossfader: true, 'show-cc': this.showCC })}>
+      <span>A</span>
+      <input
+        type="range"
+        min="0"
+        max="1"
+        step="0.01"
+        title=${t('crossfader')}
+        .value=${String(this.crossfader.position)}
+        @input=${(e: Event) => this.setCrossfader({ ...this.crossfader, position: Number((e.target as HTMLInputElement).value) })}>
+      <span>B</span>
+      <select
+        title=${t('crossfaderCurve')}
+        .value=${this.crossfader.curve}
+        @change=${(e: Event) => this.setCrossfader({ ...this.crossfader, curve: (e.target as HTMLSelectElement).value as CrossfaderCurve })}>
+        ${CROSSFADER_CURVES.map((curve) => html`<option value=${curve}>${t(`crossfaderCurve_${curve}`)}</option>`)}
+      </select>
+      <button
+        class=${classMap({ midi: true, 'learn-mode': learning })}
+        @click=${this.toggleLearn}>
+        ${learning ? t('learn') : this.midiDispatcher?.describe(TARGET) || t('unmapped')}
+      </button>
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'deck-crossfader': DeckCrossfader;
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+import type { ExportFormat, ExportOptions } from '../types';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_BIT_DEPTHS,
+  EXPORT_BITRATES,
+  EXPORT_FORMATS,
+  EXPORT_SAMPLE_RATES,
+  NORMALIZE_TARGETS,
+  isExportFormatSupported,
+} from '../utils/AudioExport';
+import { t } from '../utils/i18n';
+
+/** Asks how to encode a download before it starts. */
+@customElement('export-dialog')
+export class ExportDialog extends LitElement {
+  static override styles = css`
+    :host {
+      position: fixed;
+      inset: 0;
+      z-index: 20;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: #0008;
+      color: #fff;
+      font-size: 1.6vmin;
+      -webkit-font-smoothing: antialiased;
+    }
+    form {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 8px 12px;
+      align-items: center;
+      padding: 15px;
+      background: #000;
+      border: 2px solid #fff;
+      border-radius: 8px;
+      min-width: 22em;
+    }
+    h2 {
+      grid-column: 1 / -1;
+      margin: 0;
+      font-size: 1.2em;
+    }
+    label {
+      font-weight: 600;
+    }
+    select {
+      font: inherit;
+    }
+    input[type=checkbox] {
+      justify-self: start;
+    }
+    .actions {
+      grid-column: 1 / -1;
+      display: flex;
+      justify-content: flex-end;
+      gap: 6px;
+    }
+    button {
+      font: inherit;
+      font-weight: 600;
+      cursor: pointer;
+      color: #fff;
+      background: #0006;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      padding: 3px 8px;
+      &[type=submit] {
+        background: #fff;
+        color: #000;
+      }
+    }
+  `;
+
+  @property({ type: Object }) options: ExportOptions = { ...DEFAULT_EXPORT_OPTIONS };
+
+  @state() private draft: ExportOptions = { ...DEFAULT_EXPORT_OPTIONS };
+  @state() private unsupported = new Set<ExportFormat>();
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.draft = { ...this.options };
+    this.checkSupport();
+  }
+
+  private async checkSupport() {
+    const unsupported = new Set<ExportFormat>();
+    for (const format of EXPORT_FORMATS) {
+      if (!(await isExportFormatSupported(format))) unsupported.add(format);
+    }
+    this.unsupported = unsupported;
+  }
+
+  /** Keeps the bit depth and sample rate valid for the chosen format. */
+  private setFormat(format: ExportFormat) {
+    const bitDepths = EXPORT_BIT_DEPTHS[format];
+    const sampleRates = EXPORT_SAMPLE_RATES[format];
+    this.draft = {
+      ...this.draft,
+      format,
+      bitDepth: bitDepths && !bitDepths.includes(this.draft.bitDepth) ? bitDepths[0] : this.draft.bitDepth,
+      sampleRate: sampleRates.includes(this.draft.sampleRate) ? this.draft.sampleRate : sampleRates[sampleRates.length - 1],
+    };
+  }
+
+  private setNumber(key: 'bitDepth' | 'bitrate' | 'sampleRate' | 'numChannels', e: Event) {
+    const value = (e.target as HTMLSelectElement).value;
+    this.draft = { ...this.draft, [key]: Number(value) };
+  }
+
+  private handleNormalizeChange(e: Event) {
+    const value = (e.target as HTMLSelectElement).value;
+    this.draft = { ...this.draft, normalizeLufs: value === '' ? null : Number(value) };
+  }
+
+  private handleMasterFxChange(e: Event) {
+    this.draft = { ...this.draft, applyMasterFx: (e.target as HTMLInputElement).checked };
+  }
+
+  private confirm(e: Event) {
+    e.preventDefault();
+    this.dispatchEvent(new CustomEvent<ExportOptions>('export-confirmed', { detail: this.draft }));
+  }
+
+  private cancel() {
+    this.dispatchEvent(new CustomEvent('export-cancelled'));
+  }
+
+  override render() {
+    const { format, bitDepth, bitrate, sampleRate, numChannels, normalizeLufs, applyMasterFx } = this.draft;
+    const bitDepths = EXPORT_BIT_DEPTHS[format];
+    return html`<form @submit=${this.confirm} @keydown=${(e: KeyboardEvent) => e.key === 'Escape' && this.cancel()}>
+      <h2>${t('exportTitle')}</h2>
+      <label>${t('exportFormat')}</label>
+      <select @change=${(e: Event) => this.setFormat((e.target as HTMLSelectElement).value as ExportFormat)}>
+        ${EXPORT_FORMATS.map((f) => html`<option value=${f} ?disabled=${this.unsupported.has(f)} ?selected=${f === format}>
+          ${t(`exportFormat_${f}`)}${this.unsupported.has(f) ? ` (${t('exportUnsupported')})` : ''}
+        </option>`)}
+      </select>
+      ${bitDepths ? html`
+        <label>${t('exportBitDepth')}</label>
+        <select @change=${(e: Event) => this.setNumber('bitDepth', e)}>
+          ${bitDepths.map((depth) => html`<option value=${depth} ?selected=${depth === bitDepth}>
+            ${depth === 32 ? t('exportFloat') : t('exportBits', { bits: String(depth) })}
+          </option>`)}
+        </select>
+      ` : html`
+        <label>${t('exportBitrate')}</label>
+        <select @change=${(e: Event) => this.setNumber('bitrate', e)}>
+          ${EXPORT_BITRATES.map((kbps) => html`<option value=${kbps} ?selected=${kbps === bitrate}>${kbps} kbps</option>`)}
+        </select>
+      `}
+      <label>${t('exportSampleRate')}</label>
+      <select @change=${(e: Event) => this.setNumber('sampleRate', e)}>
+        ${EXPORT_SAMPLE_RATES[format].map((rate) => html`<option value=${rate} ?selected=${rate === sampleRate}>
+          ${rate / 1000} kHz
+        </option>`)}
+      </select>
+      <label>${t('exportChannels')}</label>
+      <select @change=${(e: Event) => this.setNumber('numChannels', e)}>
+        <option value="2" ?selected=${numChannels === 2}>${t('exportStereo')}</option>
+        <option value="1" ?selected=${numChannels === 1}>${t('exportMono')}</option>
+      </select>
+      <label>${t('exportNormalize')}</label>
+      <select @change=${this.handleNormalizeChange} title=${t('exportNormalizeHint')}>
+        <option value="" ?selected=${normalizeLufs === null}>${t('off')}</option>
+        ${NORMALIZE_TARGETS.map(({ lufs, use }) => html`<option value=${lufs} ?selected=${lufs === normalizeLufs}>
+          ${t('exportNormalizeTarget', { lufs: String(lufs), use: t(use) })}
+        </option>`)}
+      </select>
+      <label>${t('exportMasterFx')}</label>
+      <input type="checkbox" .checked=${applyMasterFx} @change=${this.handleMasterFxChange} title=${t('exportMasterFxHint')}>
+      <div class="actions">
+        <button type="button" @click=${this.cancel}>${t('cancel')}</button>
+        <button type="submit">${t('export')}</button>
+      </div>
+    </form>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'export-dialog': ExportDialog;
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { Scale } from '@google/genai';
+import type { LiveMusicGenerationConfig } from '@google/genai';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import type { MidiControlMessage } from '../types';
+import { t } from '../utils/i18n';
+
+type RangeKey = 'bpm' | 'density' | 'brightness' | 'guidance' | 'temperature' | 'topK';
+type ToggleKey = 'muteBass' | 'muteDrums';
+type ControlKey = RangeKey | ToggleKey | 'scale';
+
+interface RangeControl {
+  key: RangeKey;
+  min: number;
+  max: number;
+  step: number;
+  /** Unset values let the model decide. */
+  optional?: boolean;
+  /** The model only picks up a change after its context is reset. */
+  resetsContext?: boolean;
+}
+
+const RANGE_CONTROLS: RangeControl[] = [
+  { key: 'bpm', min: 60, max: 200, step: 1, optional: true, resetsContext: true },
+  { key: 'density', min: 0, max: 1, step: 0.01, optional: true },
+  { key: 'brightness', min: 0, max: 1, step: 0.01, optional: true },
+  { key: 'guidance', min: 0, max: 6, step: 0.1 },
+  { key: 'temperature', min: 0, max: 3, step: 0.1 },
+  { key: 'topK', min: 1, max: 1000, step: 1 },
+];
+
+const TOGGLE_CONTROLS: ToggleKey[] = ['muteBass', 'muteDrums'];
+
+const SCALES = Object.values(Scale);
+
+/** The config the model uses when nothing has been changed. */
+export const DEFAULT_GENERATION_CONFIG: LiveMusicGenerationConfig = {
+  guidance: 4,
+  temperature: 1.1,
+  topK: 40,
+  muteBass: false,
+  muteDrums: false,
+};
+
+/** Default CCs sit right after the 16 prompt knobs. */
+const DEFAULT_CCS: Record<ControlKey, number> = {
+  bpm: 16,
+  density: 17,
+  brightness: 18,
+  guidance: 19,
+  temperature: 20,
+  topK: 21,
+  scale: 22,
+  muteBass: 23,
+  muteDrums: 24,
+};
+
+const CONTROL_KEYS = Object.keys(DEFAULT_CCS) as ControlKey[];
+
+/** A panel of MIDI-learnable controls for the music generation config. */
+@customElement('generation-controls')
+export class GenerationControls extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      padding: 10px;
+      background: rgba(0, 0, 0, 0.6);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      color: #fff;
+      font-size: 1.6vmin;
+      -webkit-font-smoothing: antialiased;
+    }
+    .row {
+      display: grid;
+      grid-template-columns: 9em 1fr 3.5em 3.5em auto;
+      gap: 6px;
+      align-items: center;
+    }
+    label {
+      font-weight: 600;
+      white-space: nowrap;
+    }
+    .reset-flag {
+      color: orange;
+      margin-left: 4px;
+      cursor: help;
+    }
+    .value {
+      font-family: monospace;
+      text-align: right;
+    }
+    input[type=range] {
+      width: 100%;
+    }
+    input[type=number], select {
+      font: inherit;
+      width: 100%;
+      box-sizing: border-box;
+    }
+    button {
+      font: inherit;
+      cursor: pointer;
+      color: #fff;
+      background: #0006;
+      border: 1px solid #fff;
+      border-radius: 4px;
+      padding: 1px 5px;
+      &.active {
+        background-color: #fff;
+        color: #000;
+      }
+    }
+    .midi {
+      font-family: monospace;
+      visibility: hidden;
+      .show-cc & {
+        visibility: visible;
+      }
+      &.learn-mode {
+        color: orange;
+        border-color: orange;
+      }
+    }
+    .note {
+      color: orange;
+      font-size: 0.9em;
+    }
+  `;
+
+  @property({ type: Object }) config: LiveMusicGenerationConfig = { ...DEFAULT_GENERATION_CONFIG };
+  @property({ type: Boolean }) showCC = false;
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+
+  private readonly rerender = () => this.requestUpdate();
+  private readonly sendFeedback = () => {
+    for (const key of CONTROL_KEYS) {
+      this.midiDispatcher?.sendFeedback(`gen:${key}`, this.controlValue(key), this.controlStep(key));
+    }
+  };
+
+  /** Pads flip the toggles; anything else sets a control like a knob would. */
+  private readonly handleControl = (e: Event) => {
+    const { target, kind, value } = (e as CustomEvent<MidiControlMessage>).detail;
+    const key = CONTROL_KEYS.find(k => target === `gen:${k}`);
+    if (!key || kind === 'note-off' || kind === 'aftertouch') return;
+
+    const range = RANGE_CONTROLS.find(c => c.key === key);
+    if (range) {
+      const raw = range.min + (value / 127) * (range.max - range.min);
+      this.setValue(range.key, Math.round(raw / range.step) * range.step);
+    } else if (key === 'scale') {
+      this.setValue(key, SCALES[Math.round((value / 127) * (SCALES.length - 1))]);
+    } else if (kind === 'note-on') {
+      this.setValue(key as ToggleKey, !this.config[key as ToggleKey]);
+    } else {
+      this.setValue(key as ToggleKey, value >= 64);
+    }
+  };
+
+  override connectedCallback() {
+    super.connectedCallback();
+    for (const key of CONTROL_KEYS) {
+      this.midiDispatcher?.setDefault(`gen:${key}`, 'cc', DEFAULT_CCS[key]);
+    }
+    this.midiDispatcher?.addEventListener('control', this.handleControl);
+    this.midiDispatcher?.addEventListener('mappings-changed', this.rerender);
+    this.midiDispatcher?.addEventListener('feedback-sync', this.sendFeedback);
+    window.addEventListener('language-changed', this.rerender);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('control', this.handleControl);
+    this.midiDispatcher?.removeEventListener('mappings-changed', this.rerender);
+    this.midiDispatcher?.removeEventListener('feedback-sync', this.sendFeedback);
+    window.removeEventListener('language-changed', this.rerender);
+  }
+
+  override updated(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('config')) {
+      this.sendFeedback();
+    }
+  }
+
+  private setValue<K extends keyof LiveMusicGenerationConfig>(key: K, value: LiveMusicGenerationConfig[K] | undefined) {
+    const config = { ...this.config };
+    if (value === undefined) {
+      delete config[key];
+    } else {
+      config[key] = value;
+    }
+    this.config = config;
+    this.dispatchEvent(
+      new CustomEvent<LiveMusicGenerationConfig>('config-changed', { detail: config }),
+    );
+  }
+
+  /** The CC value that would set `key` to what it is now. */
+  private controlValue(key: ControlKey): number {
+    const range = RANGE_CONTROLS.find(c => c.key === key);
+    if (range) {
+      const value = this.config[range.key] ?? (range.min + range.max) / 2;
+      return ((value - range.min) / (range.max - range.min)) * 127;
+    }
+    if (key === 'scale') {
+      return (SCALES.indexOf(this.config.scale ?? Scale.SCALE_UNSPECIFIED) / (SCALES.length - 1)) * 127;
+    }
+    return this.config[key] ? 127 : 0;
+  }
+
+  /** How far apart, in CC values, the values `key` can take are. */
+  private controlStep(key: ControlKey): number {
+    const range = RANGE_CONTROLS.find(c => c.key === key);
+    if (range) return (range.step / (range.max - range.min)) * 127;
+    if (key === 'scale') return 127 / (SCALES.length - 1);
+    return 127;
+  }
+
+  private toggleLearn(key: ControlKey) {
+    const target = `gen:${key}`;
+    this.midiDispatcher?.learn(this.midiDispatcher.learningTarget === target ? null : target);
+  }
+
+  private handleSeedInput(e: Event) {
+    const value = (e.target as HTMLInputElement).value;
+    this.setValue('seed', value === '' ? undefined : Math.floor(Number(value)));
+  }
+
+  private renderResetFlag(resetsContext?: boolean) {
+    if (!resetsContext) return '';
+    return html`<span class="reset-flag" title=${t('resetsContextHint')}>⟲</span>`;
+  }
+
+  private renderMidiButton(key: ControlKey) {
+    const target = `gen:${key}`;
+    const learning = this.midiDispatcher?.learningTarget === target;
+    return html`<button
+      class=${classMap({ midi: true, 'learn-mode': learning })}
+      @click=${() => this.toggleLearn(key)}>
+      ${learning ? t('learn') : this.midiDispatcher?.describe(target) || t('unmapped')}
+    </button>`;
+  }
+
+  private renderRange(control: RangeControl) {
+    const value = this.config[control.key];
+    const isAuto = value === undefined;
+    return html`<div class="row">
+      <label>${t(`gen_${control.key}`)}${this.renderResetFlag(control.resetsContext)}</label>
+      <input
+        type="range"
+        min=${control.min}
+        max=${control.max}
+        step=${control.step}
+        .value=${String(value ?? (control.min + control.max) / 2)}
+        @input=${(e: Event) => this.setValue(control.key, Number((e.target as HTMLInputElement).value))}>
+      <span class="value">${isAuto ? t('auto') : value}</span>
+      ${control.optional && !isAuto
+        ? html`<button @click=${() => this.setValue(control.key, undefined)}>${t('auto')}</button>`
+        : html`<span></span>`}
+      ${this.renderMidiButton(control.key)}
+    </div>`;
+  }
+
+  override render() {
+    return html`<div class=${classMap({ 'show-cc': this.showCC })}>
+      ${RANGE_CONTROLS.map(c => this.renderRange(c))}
+      <div class="row">
+        <label>${t('gen_scale')}${this.renderResetFlag(true)}</label>
+        <select
+          .value=${this.config.scale ?? Scale.SCALE_UNSPECIFIED}
+          @change=${(e: Event) => this.setValue('scale', (e.target as HTMLSelectElement).value as Scale)}>
+          ${SCALES.map(s => html`<option value=${s}>${t(`scale_${s}`)}</option>`)}
+        </select>
+        <span></span>
+        <span></span>
+        ${this.renderMidiButton('scale')}
+      </div>
+      ${TOGGLE_CONTROLS.map(key => html`<div class="row">
+        <label>${t(`gen_${key}`)}</label>
+        <button
+          class=${this.config[key] ? 'active' : ''}
+          @click=${() => this.setValue(key, !this.config[key])}>
+          ${this.config[key] ? t('on') : t('off')}
+        </button>
+        <span></span>
+        <span></span>
+        ${this.renderMidiButton(key)}
+      </div>`)}
+      <div class="row">
+        <label>${t('gen_seed')}</label>
+        <input
+          type="number"
+          min="0"
+          placeholder=${t('auto')}
+          .value=${this.config.seed === undefined ? '' : String(this.config.seed)}
+          @change=${this.handleSeedInput}>
+      </div>
+      <div class="note">⟲ ${t('resetsContextHint')}</div>
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'generation-controls': GenerationControls;
+  }
+}
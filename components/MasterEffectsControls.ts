@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import type { MasterFxParams, MidiControlMessage } from '../types';
+import { DEFAULT_MASTER_FX } from '../utils/MasterEffects';
+import { t } from '../utils/i18n';
+
+type RangeKey = Exclude<keyof MasterFxParams, 'enabled'>;
+type ControlKey = keyof MasterFxParams;
+
+interface RangeControl {
+  key: RangeKey;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+}
+
+const RANGE_CONTROLS: RangeControl[] = [
+  { key: 'eqLow', min: -24, max: 12, step: 0.5, unit: 'dB' },
+  { key: 'eqMid', min: -24, max: 12, step: 0.5, unit: 'dB' },
+  { key: 'eqHigh', min: -24, max: 12, step: 0.5, unit: 'dB' },
+  { key: 'filter', min: -1, max: 1, step: 0.02 },
+  { key: 'resonance', min: 0, max: 18, step: 0.5, unit: 'dB' },
+  { key: 'delayTime', min: 0.05, max: 2, step: 0.005, unit: 's' },
+  { key: 'delayFeedback', min: 0, max: 0.9, step: 0.01 },
+  { key: 'delayMix', min: 0, max: 1, step: 0.01 },
+  { key: 'reverbMix', min: 0, max: 1, step: 0.01 },
+  { key: 'compThreshold', min: -40, max: 0, step: 0.5, unit: 'dB' },
+  { key: 'compRatio', min: 1, max: 20, step: 0.5, unit: ':1' },
+  { key: 'limiterCeiling', min: -12, max: 0, step: 0.1, unit: 'dB' },
+];
+
+/** Default CCs follow the generation controls. */
+const DEFAULT_CCS: Record<ControlKey, number> = {
+  enabled: 25,
+  eqLow: 26,
+  eqMid: 27,
+  eqHigh: 28,
+  filter: 29,
+  resonance: 30,
+  delayTime: 31,
+  delayFeedback: 32,
+  delayMix: 33,
+  reverbMix: 34,
+  compThreshold: 35,
+  compRatio: 36,
+  limiterCeiling: 37,
+};
+
+const CONTROL_KEYS = Object.keys(DEFAULT_CCS) as ControlKey[];
+
+/** A panel of MIDI-learnable controls for the master effects chain. */
+@customElement('master-effects-controls')
+export class MasterEffectsControls extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      padding: 10px;
+      background: rgba(0, 0, 0, 0.6);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      color: #fff;
+      font-size: 1.6vmin;
+      -webkit-font-smoothing: antialiased;
+    }
+    .row {
+      display: grid;
+      grid-template-columns: 9em 1fr 4.5em auto;
+      gap: 6px;
+      align-items: center;
+    }
+    label {
+      font-weight: 600;
+      white-space: nowrap;
+    }
+    .value {
+      font-family: monospace;
+      text-align: right;
+    }
+    input[type=range] {
+      width: 100%;
+    }
+    button {
+      font: inherit;
+      cursor: pointer;
+      color: #fff;
+      background: #0006;
+      border: 1px solid #fff;
+      border-radius: 4px;
+      padding: 1px 5px;
+      &.active {
+        background-color: #fff;
+        color: #000;
+      }
+    }
+    .midi {
+      font-family: monospace;
+      visibility: hidden;
+      .show-cc & {
+        visibility: visible;
+      }
+      &.learn-mode {
+        color: orange;
+        border-color: orange;
+      }
+    }
+  `;
+
+  @property({ type: Object }) params: MasterFxParams = { ...DEFAULT_MASTER_FX };
+  @property({ type: Boolean }) showCC = false;
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+
+  private readonly rerender = () => this.requestUpdate();
+  private readonly sendFeedback = () => {
+    for (const key of CONTROL_KEYS) {
+      this.midiDispatcher?.sendFeedback(`fx:${key}`, this.controlValue(key), this.controlStep(key));
+    }
+  };
+
+  /** Pads flip the chain on and off; anything else sets a control like a knob would. */
+  private readonly handleControl = (e: Event) => {
+    const { target, kind, value } = (e as CustomEvent<MidiControlMessage>).detail;
+    const key = CONTROL_KEYS.find(k => target === `fx:${k}`);
+    if (!key || kind === 'note-off' || kind === 'aftertouch') return;
+
+    const range = RANGE_CONTROLS.find(c => c.key === key);
+    if (range) {
+      const raw = range.min + (value / 127) * (range.max - range.min);
+      this.setValue(range.key, Math.round(raw / range.step) * range.step);
+    } else if (kind === 'note-on') {
+      this.setValue('enabled', !this.params.enabled);
+    } else {
+      this.setValue('enabled', value >= 64);
+    }
+  };
+
+  override connectedCallback() {
+    super.connectedCallback();
+    for (const key of CONTROL_KEYS) {
+      this.midiDispatcher?.setDefault(`fx:${key}`, 'cc', DEFAULT_CCS[key]);
+    }
+    this.midiDispatcher?.addEventListener('control', this.handleControl);
+    this.midiDispatcher?.addEventListener('mappings-changed', this.rerender);
+    this.midiDispatcher?.addEventListener('feedback-sync', this.sendFeedback);
+    window.addEventListener('language-changed', this.rerender);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('control', this.handleControl);
+    this.midiDispatcher?.removeEventListener('mappings-changed', this.rerender);
+    this.midiDispatcher?.removeEventListener('feedback-sync', this.sendFeedback);
+    window.removeEventListener('language-changed', this.rerender);
+  }
+
+  override updated(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('params')) {
+      this.sendFeedback();
+    }
+  }
+
+  private setValue<K extends ControlKey>(key: K, value: MasterFxParams[K]) {
+    this.params = { ...this.params, [key]: value };
+    this.dispatchEvent(
+      new CustomEvent<MasterFxParams>('fx-changed', { detail: this.params }),
+    );
+  }
+
+  /** The CC value that would set `key` to what it is now. */
+  private controlValue(key: ControlKey): number {
+    const range = RANGE_CONTROLS.find(c => c.key === key);
+    if (range) {
+      return ((this.params[range.key] - range.min) / (range.max - range.min)) * 127;
+    }
+    return this.params.enabled ? 127 : 0;
+  }
+
+  /** How far apart, in CC values, the values `key` can take are. */
+  private controlStep(key: ControlKey): number {
+    const range = RANGE_CONTROLS.find(c => c.key === key);
+    return range ? (range.step / (range.max - range.min)) * 127 : 127;
+  }
+
+  private toggleLearn(key: ControlKey) {
+    const target = `fx:${key}`;
+    this.midiDispatcher?.learn(this.midiDispatcher.learningTarget === target ? null : target);
+  }
+
+  private formatValue({ key, step, unit }: RangeControl) {
+    const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+    return `${this.params[key].toFixed(decimals)}${unit ?? ''}`;
+  }
+
+  private renderMidiButton(key: ControlKey) {
+    const target = `fx:${key}`;
+    const learning = this.midiDispatcher?.learningTarget === target;
+    return html`<button
+      class=${classMap({ midi: true, 'learn-mode': learning })}
+      @click=${() => this.toggleLearn(key)}>
+      ${learning ? t('learn') : this.midiDispatcher?.describe(target) || t('unmapped')}
+    </button>`;
+  }
+
+  private renderRange(control: RangeControl) {
+    return html`<div class="row">
+      <label>${t(`fx_${control.key}`)}</label>
+      <input
+        type="range"
+        min=${control.min}
+        max=${control.max}
+        step=${control.step}
+        .value=${String(this.params[control.key])}
+        @input=${(e: Event) => this.setValue(control.key, Number((e.target as HTMLInputElement).value))}
+        @dblclick=${() => this.setValue(control.key, DEFAULT_MASTER_FX[control.key])}>
+      <span class="value">${this.formatValue(control)}</span>
+      ${this.renderMidiButton(control.key)}
+    </div>`;
+  }
+
+  override render() {
+    return html`<div class=${classMap({ 'show-cc': this.showCC })}>
+      <div class="row">
+        <label>${t('fx_enabled')}</label>
+        <button
+          class=${this.params.enabled ? 'active' : ''}
+          @click=${() => this.setValue('enabled', !this.params.enabled)}>
+          ${this.params.enabled ? t('on') : t('off')}
+        </button>
+        <span></span>
+        ${this.renderMidiButton('enabled')}
+      </div>
+      ${RANGE_CONTROLS.map(c => this.renderRange(c))}
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'master-effects-controls': MasterEffectsControls;
+  }
+}
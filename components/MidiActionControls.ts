@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import { t } from '../utils/i18n';
+
+/** An app action a button or pad can be learned for; `target` is its mapping target. */
+export interface MidiActionItem {
+  target: string;
+  label: string;
+}
+
+/** A panel of MIDI-learnable app actions. */
+@customElement('midi-action-controls')
+export class MidiActionControls extends LitElement {
+  static override styles = css`
+    :host {
+      display: grid;
+      grid-template-columns: 1fr auto 1fr auto;
+      gap: 6px 10px;
+      align-items: center;
+      padding: 10px;
+      background: rgba(0, 0, 0, 0.6);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      color: #fff;
+      font-size: 1.6vmin;
+      -webkit-font-smoothing: antialiased;
+    }
+    label {
+      font-weight: 600;
+      white-space: nowrap;
+    }
+    button {
+      font: inherit;
+      font-family: monospace;
+      cursor: pointer;
+      color: #fff;
+      background: #0006;
+      border: 1px solid #fff;
+      border-radius: 4px;
+      padding: 1px 5px;
+      &.learn-mode {
+        color: orange;
+        border-color: orange;
+      }
+    }
+  `;
+
+  @property({ type: Array }) actions: MidiActionItem[] = [];
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+
+  private readonly rerender = () => this.requestUpdate();
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.midiDispatcher?.addEventListener('mappings-changed', this.rerender);
+    window.addEventListener('language-changed', this.rerender);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('mappings-changed', this.rerender);
+    window.removeEventListener('language-changed', this.rerender);
+  }
+
+  private toggleLearn(target: string) {
+    this.midiDispatcher?.learn(this.midiDispatcher.learningTarget === target ? null : target);
+  }
+
+  override render() {
+    return this.actions.map(({ target, label }) => {
+      const learning = this.midiDispatcher?.learningTarget === target;
+      return html`<label>${label}</label>
+        <button
+          class=${classMap({ 'learn-mode': learning })}
+          @click=${() => this.toggleLearn(target)}>
+          ${learning ? t('learn') : this.midiDispatcher?.describe(target) || t('unmapped')}
+        </button>`;
+    });
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-action-controls': MidiActionControls;
+  }
+}
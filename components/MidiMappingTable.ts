@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+import type { MidiMapping, MidiValueMode } from '../types';
+import { describeBinding, MIDI_VALUE_MODES, type MidiDispatcher } from '../utils/MidiDispatcher';
+import { t } from '../utils/i18n';
+
+/**
+ * The knobs and faders in the mapping table, with how each drives its
+ * target: absolutely, as a relative encoder or as a 14-bit pair, and
+ * whether it picks up the target's value before moving it.
+ */
+@customElement('midi-mapping-table')
+export class MidiMappingTable extends LitElement {
+  static override styles = css`
+    :host {
+      display: grid;
+      grid-template-columns: auto auto auto auto auto;
+      gap: 6px 10px;
+      align-items: center;
+      padding: 10px;
+      background: rgba(0, 0, 0, 0.6);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      color: #fff;
+      font-size: 1.6vmin;
+      -webkit-font-smoothing: antialiased;
+    }
+    label {
+      font-weight: 600;
+      white-space: nowrap;
+    }
+    .binding {
+      font-family: monospace;
+    }
+    select,
+    button {
+      font: inherit;
+    }
+    button {
+      cursor: pointer;
+      color: #fff;
+      background: #0006;
+      border: 1px solid #fff;
+      border-radius: 4px;
+      padding: 1px 5px;
+    }
+    .empty {
+      grid-column: 1 / -1;
+      opacity: 0.7;
+    }
+  `;
+
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  /** What to call a mapping target, such as a prompt's text for its id. */
+  @property({ attribute: false }) targetLabel: (target: string) => string = (target) => target;
+
+  private readonly rerender = () => this.requestUpdate();
+
+  override connectedCallback() {
+    super.connectedCallback();
+    this.midiDispatcher?.addEventListener('mappings-changed', this.rerender);
+    window.addEventListener('language-changed', this.rerender);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('mappings-changed', this.rerender);
+    window.removeEventListener('language-changed', this.rerender);
+  }
+
+  private setValueMode(mapping: MidiMapping, valueMode: MidiValueMode) {
+    this.midiDispatcher?.updateMapping(mapping, { valueMode });
+  }
+
+  private setPickup(mapping: MidiMapping, pickup: boolean) {
+    this.midiDispatcher?.updateMapping(mapping, { pickup });
+  }
+
+  private renderMapping(mapping: MidiMapping) {
+    const { binding } = mapping;
+    const valueMode = mapping.valueMode ?? 'absolute';
+    // Only CCs 0 to 31 have an LSB partner, and NRPNs are always fine.
+    const modes = binding.type === 'cc'
+      ? MIDI_VALUE_MODES.filter((mode) => mode !== '14-bit' || binding.number < 32)
+      : [];
+    return html`<label>${this.targetLabel(mapping.target)}</label>
+      <span class="binding" title=${binding.device ?? t('midiAnyDevice')}>${describeBinding(binding)}</span>
+      ${modes.length > 0 ? html`<select
+        .value=${valueMode}
+        @change=${(e: Event) => this.setValueMode(mapping, (e.target as HTMLSelectElement).value as MidiValueMode)}>
+        ${modes.map((mode) => html`<option value=${mode}>${t(`midiValueMode_${mode}`)}</option>`)}
+      </select>` : html`<span>${t('midiValueMode_14-bit')}</span>`}
+      <label title=${t('midiPickupHint')}>
+        <input
+          type="checkbox"
+          .checked=${mapping.pickup ?? false}
+          ?disabled=${valueMode.startsWith('relative')}
+          @change=${(e: Event) => this.setPickup(mapping, (e.target as HTMLInputElement).checked)}>
+        ${t('midiPickup')}
+      </label>
+      <button
+        title=${t('midiUnmap')}
+        @click=${() => this.midiDispatcher?.unmap(mapping.target, binding.type, binding.device)}>✕</button>`;
+  }
+
+  override render() {
+    const mappings = this.midiDispatcher?.getMappings().filter(({ binding }) => binding.type !== 'note') ?? [];
+    if (mappings.length === 0) {
+      return html`<span class="empty">${t('midiMappingsEmpty')}</span>`;
+    }
+    return mappings.map((mapping) => this.renderMapping(mapping));
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-mapping-table': MidiMappingTable;
+  }
+}
@@ -170,7 +170,7 @@ export class PlayPauseButton extends LitElement {
   private renderIcon() {
     if (this.playbackState === 'playing') {
       return this.renderPause();
-    } else if (this.playbackState === 'loading') {
+    } else if (this.playbackState === 'loading' || this.playbackState === 'reconnecting') {
       return this.renderLoading();
     } else {
       return this.renderPlay();
@@ -9,11 +9,14 @@ import { classMap } from 'lit/directives/class-map.js';
 import './WeightKnob';
 import type { WeightKnob } from './WeightKnob';
 
-import type { MidiDispatcher } from '../utils/MidiDispatcher';
-import type { Prompt, ControlChange } from '../types';
+import { describeBinding, type MidiDispatcher } from '../utils/MidiDispatcher';
+import type { Prompt, MidiControlMessage } from '../types';
 import { t } from '../utils/i18n';
 
-/** A single prompt input associated with a MIDI CC. */
+/**
+ * A single prompt input associated with a MIDI CC, and optionally a pad's
+ * note. Learning picks up whichever of the two arrives first.
+ */
 @customElement('prompt-controller')
 export class PromptController extends LitElement {
   static override styles = css`
@@ -28,7 +31,7 @@ export class PromptController extends LitElement {
       width: 70%;
       flex-shrink: 0;
     }
-    #midi {
+    #midi, #pad {
       font-family: monospace;
       text-align: center;
       font-size: 1.5vmin;
@@ -49,6 +52,9 @@ export class PromptController extends LitElement {
         visibility: visible;
       }
     }
+    #pad {
+      margin-top: 0.3vmin;
+    }
     #text {
       font-weight: 500;
       font-size: 1.8vmin;
@@ -95,10 +101,9 @@ export class PromptController extends LitElement {
   @property({ type: String }) color = '';
   @property({ type: Boolean, reflect: true }) filtered = false;
 
+  /** The CC this grid slot answers to until another control is learned for it. */
   @property({ type: Number }) cc = 0;
-  @property({ type: Number }) channel = 0; // Not currently used
 
-  @property({ type: Boolean }) learnMode = false;
   @property({ type: Boolean }) showCC = false;
 
   @query('weight-knob') private weightInput!: WeightKnob;
@@ -110,31 +115,59 @@ export class PromptController extends LitElement {
   @property({ type: Number }) audioLevel = 0;
 
   private lastValidText!: string;
+  /** A momentary pad is down. */
+  private held = false;
+  /** The weight the held pad's velocity set, which aftertouch only pushes up from. */
+  private heldWeight = 0;
   private readonly rerender = () => this.requestUpdate();
+  private readonly sendFeedback = () => {
+    this.midiDispatcher?.sendFeedback(this.promptId, (this.weight / 2) * 127);
+  };
 
   override connectedCallback() {
     super.connectedCallback();
-    this.midiDispatcher?.addEventListener('cc-message', (e: Event) => {
-      const customEvent = e as CustomEvent<ControlChange>;
-      const { channel, cc, value } = customEvent.detail;
-      if (this.learnMode) {
-        this.cc = cc;
-        this.channel = channel;
-        this.learnMode = false;
-        this.dispatchPromptChange();
-      } else if (cc === this.cc) {
-        this.weight = (value / 127) * 2;
-        this.dispatchPromptChange();
-      }
-    });
+    this.midiDispatcher?.addEventListener('control', this.handleControl);
+    this.midiDispatcher?.addEventListener('mappings-changed', this.rerender);
+    this.midiDispatcher?.addEventListener('feedback-sync', this.sendFeedback);
     window.addEventListener('language-changed', this.rerender);
   }
 
   override disconnectedCallback() {
     super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('control', this.handleControl);
+    this.midiDispatcher?.removeEventListener('mappings-changed', this.rerender);
+    this.midiDispatcher?.removeEventListener('feedback-sync', this.sendFeedback);
     window.removeEventListener('language-changed', this.rerender);
   }
 
+  /**
+   * A knob sets the weight. A pad's velocity does: a momentary pad holds it
+   * until released, with aftertouch pushing it higher but never lower, and a
+   * toggle pad switches the prompt off again on the next hit.
+   */
+  private readonly handleControl = (e: Event) => {
+    const { target, kind, value, mapping } = (e as CustomEvent<MidiControlMessage>).detail;
+    if (target !== this.promptId) return;
+    const weight = (value / 127) * 2;
+    if (kind === 'cc') {
+      this.weight = weight;
+    } else if (kind === 'note-on' && mapping.padMode === 'toggle') {
+      this.weight = this.weight > 0 ? 0 : weight;
+    } else if (kind === 'note-on') {
+      this.held = true;
+      this.heldWeight = weight;
+      this.weight = weight;
+    } else if (this.held && kind === 'aftertouch') {
+      this.weight = Math.max(this.heldWeight, weight);
+    } else if (this.held) {
+      this.held = false;
+      this.weight = 0;
+    } else {
+      return;
+    }
+    this.dispatchPromptChange();
+  };
+
   override firstUpdated() {
     // contenteditable is applied to textInput so we can "shrink-wrap" to text width
     // It's set here and not render() because Lit doesn't believe it's a valid attribute.
@@ -146,8 +179,8 @@ export class PromptController extends LitElement {
   }
 
   update(changedProperties: Map<string, unknown>) {
-    if (changedProperties.has('showCC') && !this.showCC) {
-      this.learnMode = false;
+    if (changedProperties.has('promptId') || changedProperties.has('cc')) {
+      this.midiDispatcher?.setDefault(this.promptId, 'cc', this.cc);
     }
     if (changedProperties.has('text') && this.textInput) {
       this.textInput.textContent = this.text;
@@ -155,6 +188,12 @@ export class PromptController extends LitElement {
     super.update(changedProperties);
   }
 
+  override updated(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('weight') || changedProperties.has('promptId')) {
+      this.sendFeedback();
+    }
+  }
+
   private dispatchPromptChange() {
     this.dispatchEvent(
       new CustomEvent<Prompt>('prompt-changed', {
@@ -214,14 +253,33 @@ export class PromptController extends LitElement {
     this.dispatchPromptChange();
   }
 
+  private get learning() {
+    return this.midiDispatcher?.learningTarget === this.promptId;
+  }
+
   private toggleLearnMode() {
-    this.learnMode = !this.learnMode;
+    this.midiDispatcher?.learn(this.learning ? null : this.promptId);
+  }
+
+  /** Momentary, then toggle, then the pad is unmapped. */
+  private cyclePadMode() {
+    const mapping = this.midiDispatcher?.getMapping(this.promptId, 'note');
+    if (!mapping) return;
+    this.held = false;
+    if (mapping.padMode === 'toggle') {
+      this.midiDispatcher!.unmap(this.promptId, 'note', mapping.binding.device);
+    } else {
+      this.midiDispatcher!.updateMapping(mapping, { padMode: 'toggle' });
+    }
   }
 
   override render() {
+    const knobs = (['cc', 'nrpn'] as const)
+      .flatMap((type) => this.midiDispatcher?.getMappings(this.promptId, type) ?? []);
+    const pad = this.midiDispatcher?.getMapping(this.promptId, 'note');
     const classes = classMap({
       'prompt': true,
-      'learn-mode': this.learnMode,
+      'learn-mode': this.learning,
       'show-cc': this.showCC,
     });
     return html`<div class=${classes}>
@@ -238,8 +296,11 @@ export class PromptController extends LitElement {
         @keydown=${this.onKeyDown}
         @blur=${this.updateText}></span>
       <div id="midi" @click=${this.toggleLearnMode}>
-        ${this.learnMode ? t('learn') : `${t('cc')}:${this.cc}`}
+        ${this.learning ? t('learn') : knobs.map(({ binding }) => describeBinding(binding)).join(' · ') || t('unmapped')}
       </div>
+      ${pad ? html`<div id="pad" title=${t('padModeHint')} @click=${this.cyclePadMode}>
+        ${describeBinding(pad.binding)} ${pad.padMode === 'toggle' ? t('padToggle') : t('padMomentary')}
+      </div>` : ''}
     </div>`;
   }
 }
@@ -11,11 +11,47 @@ import { throttle } from '../utils/throttle';
 import './PromptController';
 import './PlayPauseButton';
 import './AudioVisualizer';
+import './SceneBar';
+import './ExportDialog';
 import type { AudioVisualizer } from './AudioVisualizer';
-import type { AnalysisResponse, PlaybackState, Prompt, Style } from '../types';
+import { DEFAULT_GENERATION_CONFIG } from './GenerationControls';
+import './MasterEffectsControls';
+import './DeckCrossfader';
+import './MidiActionControls';
+import type { MidiActionItem } from './MidiActionControls';
+import './MidiMappingTable';
+import type { AnalysisResponse, AudioDevice, BeatInfo, BufferStats, CrossfaderState, CueSource, DeckId, DeckPrompts, ExportOptions, LoopOptions, LoudnessStats, MasterFxParams, MidiControlMessage, MidiMapping, PlaybackState, Prompt, Style, TransitionCurve, TransitionSettings, WeightedPromptSnapshot } from '../types';
+import type { LiveMusicGenerationConfig } from '@google/genai';
 import { MidiDispatcher } from '../utils/MidiDispatcher';
+import { PromptTransition, type TransitionFrame } from '../utils/PromptTransition';
+import { SceneStore, SCENE_SLOT_COUNT } from '../utils/SceneStore';
+import { downloadBlob } from '../utils/download';
+import { DEFAULT_EXPORT_OPTIONS } from '../utils/AudioExport';
+import { DEFAULT_MASTER_FX } from '../utils/MasterEffects';
+import { DEFAULT_CROSSFADER } from '../utils/crossfader';
+import { CueOutput } from '../utils/CueOutput';
+import { LiveInput } from '../utils/LiveInput';
+import { MidiProfileStore } from '../utils/MidiProfileStore';
+import { MIDI_PRESETS, findPreset } from '../utils/midiPresets';
 import { t, setLanguage } from '../utils/i18n';
 
+/** MIDI notes from this one upwards recall scene slots (C1, a common pad default). */
+const SCENE_BASE_NOTE = 36;
+/** The pads after the scene slots randomize the grid, and all styles. */
+const RANDOMIZE_NOTE = SCENE_BASE_NOTE + SCENE_SLOT_COUNT;
+const RANDOMIZE_ALL_NOTE = RANDOMIZE_NOTE + 1;
+/** Live input steering only takes over grid slots quieter than this. */
+const SILENT_WEIGHT = 0.05;
+
+/** An app action that a MIDI button or pad can trigger, mapped as 'action:<id>'. */
+interface MidiAction {
+  id: string;
+  label: () => string;
+  run: () => void;
+  /** The note it answers to until something else is learned. */
+  defaultNote?: number;
+}
+
 /** The grid of prompt inputs. */
 @customElement('prompt-dj-midi')
 export class PromptDjMidi extends LitElement {
@@ -49,6 +85,49 @@ export class PromptDjMidi extends LitElement {
     prompt-controller {
       width: 100%;
     }
+    #diagnostics {
+      position: absolute;
+      bottom: 5px;
+      right: 5px;
+      font-family: monospace;
+      font-size: 1.4vmin;
+      color: #fff8;
+      pointer-events: none;
+    }
+    #tempo {
+      position: absolute;
+      bottom: calc(5px + 2vmin);
+      right: 5px;
+      font-family: monospace;
+      font-size: 1.4vmin;
+      color: #fff8;
+      pointer-events: none;
+    }
+    #loudness {
+      position: absolute;
+      bottom: 5px;
+      left: 5px;
+      font-family: monospace;
+      font-size: 1.4vmin;
+      color: #fff8;
+      pointer-events: none;
+      .over {
+        color: orange;
+      }
+    }
+    #reconnecting {
+      position: absolute;
+      top: calc(50% + 9vmin);
+      left: 50%;
+      transform: translateX(-50%);
+      z-index: 10;
+      padding: 3px 8px;
+      border-radius: 4px;
+      background: #000c;
+      color: orange;
+      font-weight: 600;
+      white-space: nowrap;
+    }
     play-pause-button {
       position: absolute;
       width: 15vmin;
@@ -87,6 +166,48 @@ export class PromptDjMidi extends LitElement {
         cursor: not-allowed;
       }
     }
+    #midi-inputs {
+      position: relative;
+      font-weight: 600;
+      -webkit-font-smoothing: antialiased;
+      summary {
+        padding: 5px;
+        background: #fff;
+        color: #000;
+        border-radius: 4px;
+        cursor: pointer;
+      }
+      & > div {
+        position: absolute;
+        z-index: 20;
+        margin-top: 2px;
+        padding: 5px;
+        background: #fff;
+        color: #000;
+        border-radius: 4px;
+        display: flex;
+        flex-direction: column;
+        gap: 3px;
+        white-space: nowrap;
+      }
+      .midi-input {
+        display: flex;
+        gap: 5px;
+        align-items: center;
+        justify-content: space-between;
+      }
+      select {
+        padding: 1px;
+        border: 1px solid #000;
+      }
+      button {
+        color: #000;
+        border-color: #000;
+      }
+      #midi-profile-input {
+        display: none;
+      }
+    }
     select {
       font: inherit;
       padding: 5px;
@@ -99,7 +220,21 @@ export class PromptDjMidi extends LitElement {
       -webkit-font-smoothing: antialiased;
       font-weight: 600;
     }
-    #image-controls, #audio-controls {
+    #transition-controls {
+      display: flex;
+      gap: 5px;
+      align-items: center;
+      color: #fff;
+      font-weight: 600;
+      input {
+        font: inherit;
+        width: 4em;
+        padding: 4px;
+        border-radius: 4px;
+        border: none;
+      }
+    }
+    #image-controls, #audio-controls, #live-input-controls {
       display: flex;
       gap: 5px;
       align-items: center;
@@ -111,7 +246,14 @@ export class PromptDjMidi extends LitElement {
       object-fit: cover;
       border: 1px solid #fff8;
     }
-    #image-upload-input, #audio-upload-input {
+    #replay-controls, #loop-controls, #cue-controls {
+      display: flex;
+      gap: 5px;
+      align-items: center;
+      color: #fff;
+      font-weight: 600;
+    }
+    #image-upload-input, #audio-upload-input, #replay-upload-input {
       display: none;
     }
     .clear-btn {
@@ -125,12 +267,19 @@ export class PromptDjMidi extends LitElement {
     }
     #footer-controls {
       display: flex;
+      flex-direction: column;
+      gap: 10px;
       justify-content: center;
       align-items: center;
       margin-top: auto;
       padding-bottom: 2vmin;
       width: 100%;
     }
+    #deck-bar {
+      display: flex;
+      gap: 8px;
+      align-items: center;
+    }
     #chat-container {
       display: flex;
       gap: 10px;
@@ -155,25 +304,127 @@ export class PromptDjMidi extends LitElement {
     #chat-input::placeholder {
       color: rgba(255, 255, 255, 0.5);
     }
+    generation-controls {
+      position: absolute;
+      top: 45px;
+      right: 5px;
+      width: min(420px, 90vw);
+      z-index: 20;
+    }
+    master-effects-controls {
+      position: absolute;
+      top: 45px;
+      left: 5px;
+      width: min(420px, 90vw);
+      z-index: 20;
+    }
+    #midi-panels {
+      position: absolute;
+      top: 45px;
+      left: 50%;
+      transform: translateX(-50%);
+      z-index: 20;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 8px;
+      max-height: calc(100% - 60px);
+      overflow-y: auto;
+    }
   `;
 
   private prompts: Map<string, Prompt>;
   private midiDispatcher: MidiDispatcher;
+  private readonly transition = new PromptTransition();
+  private readonly sceneStore = new SceneStore();
+  private readonly midiProfiles = new MidiProfileStore();
+  /** Devices whose profile has been restored, and which are saved as they change. */
+  private readonly profiledDevices = new Set<string>();
+  /** Set while a profile or preset is applied, which saves only its own device. */
+  private applyingMidiProfile = false;
+  private readonly midiActions: MidiAction[] = [
+    { id: 'playPause', label: () => t('actionPlayPause'), run: () => this.playPause() },
+    { id: 'randomize', label: () => t('randomize'), run: () => this.randomizePrompts(), defaultNote: RANDOMIZE_NOTE },
+    { id: 'randomizeAll', label: () => t('randomizeAll'), run: () => this.randomizeAllPrompts(), defaultNote: RANDOMIZE_ALL_NOTE },
+    { id: 'previousStyle', label: () => t('actionPreviousStyle'), run: () => this.stepStyle(-1) },
+    { id: 'nextStyle', label: () => t('actionNextStyle'), run: () => this.stepStyle(1) },
+    { id: 'download', label: () => t('download'), run: () => this.exportWithLastOptions('recording') },
+    { id: 'downloadLoop', label: () => t('downloadLoop'), run: () => this.exportWithLastOptions('loop') },
+    { id: 'generate', label: () => t('actionGenerate'), run: () => this.handleChatSubmit() },
+    ...Array.from({ length: SCENE_SLOT_COUNT }, (_, slot): MidiAction => ({
+      id: `scene${slot + 1}`,
+      label: () => t('actionScene', { slot: String(slot + 1) }),
+      run: () => this.recallScene(slot),
+      defaultNote: SCENE_BASE_NOTE + slot,
+    })),
+  ];
+  /** The last value of each action mapped to a CC, so buttons fire once as they go down. */
+  private readonly actionCcValues = new Map<string, number>();
   private readonly styles: Style[];
   private readonly allPromptsMap: Map<string, { color: string, text: string }>;
 
   @property({ type: Boolean }) private showMidi = false;
   @property({ type: String }) public playbackState: PlaybackState = 'stopped';
   @property({ type: Boolean }) public isDownloadable = false;
+  /** Fraction of the recording encoded so far, or null when not exporting. */
+  @property({ type: Number }) public exportProgress: number | null = null;
+  @property({ type: Number }) public reconnectAttempt = 0;
+  @property({ type: Object }) public bufferStats: BufferStats | null = null;
+  @property({ type: Object }) public loudness: LoudnessStats | null = null;
+  @property({ type: Number }) public replayPosition = 0;
+  @property({ type: Number }) public replayLength = 0;
+  @property({ type: Array }) public cueDevices: AudioDevice[] = [];
+  @property({ type: Number }) public trackedBpm: number | null = null;
+  @property({ type: Object }) public beat: BeatInfo | null = null;
   @state() public audioLevel = 0;
   @state() private midiInputIds: string[] = [];
-  @state() private activeMidiInputId: string | null = null;
+  @state() private midiOutputIds: string[] = [];
+  /** The output MIDI Clock goes to; empty while the clock is off. */
+  @state() private clockOutputId = '';
+  /** The output control values are sent back to; empty while feedback is off. */
+  @state() private feedbackOutputId = '';
   @state() private activeStyleName = '';
   @state() private isAnalyzing = false;
   @state() private imagePreviewUrl: string | null = null;
   @state() private isDownloadingLoop = false;
   @state() private chatPrompt = '';
   @state() private isProcessingChat = false;
+  @state() private showGenerationControls = false;
+  @state() private generationConfig: LiveMusicGenerationConfig = { ...DEFAULT_GENERATION_CONFIG };
+  @state() private showMasterFx = false;
+  @state() private showMidiActions = false;
+  @state() private showMidiMappings = false;
+  @state() private masterFx: MasterFxParams = { ...DEFAULT_MASTER_FX };
+  @state() private twoDeckMode = false;
+  /** The deck on the grid; the other one keeps playing off screen. */
+  @state() private activeDeck: DeckId = 'A';
+  @state() private crossfader: CrossfaderState = { ...DEFAULT_CROSSFADER };
+  /** Prompts and style of the deck that is not on the grid. */
+  private offDeck: { prompts: Map<string, Prompt>; styleName: string } | null = null;
+  @state() private transitionSettings: TransitionSettings = { duration: 2, unit: 'seconds', curve: 'ease' };
+  @state() private activeSceneSlot: number | null = null;
+  @state() private sceneMorphSeconds = 0;
+  @state() private isReplaying = false;
+  @state() private replayLengthScale = 1;
+  @state() private loopBars = 8;
+  @state() private loopSkipSeconds = 4;
+  /** The cue output device; empty while the cue is off. */
+  @state() private cueDeviceId = '';
+  @state() private cued = new Set<CueSource>();
+  @state() private isLoadingLoopCue = false;
+  @state() private isLiveInputOn = false;
+  @state() private liveInputDevices: AudioDevice[] = [];
+  @state() private liveInputDeviceId = '';
+  /** How far each live input analysis moves the weights towards its result. */
+  @state() private liveInfluence = 0.3;
+  @state() private isLiveInputFrozen = false;
+  @state() private isAnalyzingLiveInput = false;
+  /** Which download the export dialog is open for. */
+  @state() private exportTarget: 'recording' | 'loop' | null = null;
+  @state() private exportOptions: ExportOptions = { ...DEFAULT_EXPORT_OPTIONS };
+  /** Prompts the user grabbed during a replay; the replay leaves them alone. */
+  private readonly replayOverrides = new Set<string>();
+  private readonly liveInput = new LiveInput();
   
   @property({ type: Object }) public frequencyData: Uint8Array | null = null;
   @query('audio-visualizer') private visualizer!: AudioVisualizer;
@@ -199,6 +450,9 @@ export class PromptDjMidi extends LitElement {
     super();
     this.prompts = initialPrompts;
     this.midiDispatcher = new MidiDispatcher();
+    for (const { id, defaultNote } of this.midiActions) {
+      if (defaultNote !== undefined) this.midiDispatcher.setDefault(`action:${id}`, 'note', defaultNote);
+    }
     this.styles = styles;
     if (this.styles.length > 0) {
       this.activeStyleName = this.styles[0].name;
@@ -215,12 +469,26 @@ export class PromptDjMidi extends LitElement {
   override connectedCallback() {
     super.connectedCallback();
     this.midiDispatcher.addEventListener('midi-devices-changed', this.refreshMidiDevices);
+    this.midiDispatcher.addEventListener('mappings-changed', this.saveMidiProfiles);
+    this.transition.addEventListener('transition-frame', this.handleTransitionFrame);
+    this.sceneStore.addEventListener('scenes-changed', this.rerender);
+    this.midiDispatcher.addEventListener('control', this.handleActionControl);
+    this.liveInput.addEventListener('clip', this.handleLiveClip);
+    window.addEventListener('keydown', this.handleSceneKey);
     window.addEventListener('language-changed', this.rerender);
   }
 
   override disconnectedCallback() {
     super.disconnectedCallback();
     this.midiDispatcher.removeEventListener('midi-devices-changed', this.refreshMidiDevices);
+    this.midiDispatcher.removeEventListener('mappings-changed', this.saveMidiProfiles);
+    this.transition.removeEventListener('transition-frame', this.handleTransitionFrame);
+    this.transition.cancel();
+    this.sceneStore.removeEventListener('scenes-changed', this.rerender);
+    this.midiDispatcher.removeEventListener('control', this.handleActionControl);
+    this.liveInput.removeEventListener('clip', this.handleLiveClip);
+    this.liveInput.stop();
+    window.removeEventListener('keydown', this.handleSceneKey);
     window.removeEventListener('language-changed', this.rerender);
   }
 
@@ -257,17 +525,159 @@ export class PromptDjMidi extends LitElement {
     prompt.weight = weight;
     prompt.cc = cc;
 
+    // The user takes over this knob from any running transition or replay.
+    this.transition.detach(promptId);
+    if (this.isReplaying) this.replayOverrides.add(prompt.text);
+
     const newPrompts = new Map(this.prompts);
     newPrompts.set(promptId, prompt);
 
     this.prompts = newPrompts;
     this.requestUpdate();
 
+    this.dispatchPromptsChanged();
+  }
+
+  /** Tells the app what a deck should play, by default the one on the grid. */
+  private dispatchPromptsChanged(prompts = this.prompts, deck = this.activeDeck) {
     this.dispatchEvent(
-      new CustomEvent('prompts-changed', { detail: this.prompts }),
+      new CustomEvent<DeckPrompts>('prompts-changed', { detail: { deck, prompts } }),
     );
   }
 
+  private get transitionDurationMs() {
+    const { duration, unit } = this.transitionSettings;
+    if (unit === 'seconds') return duration * 1000;
+    // Bars are 4 beats at the session BPM, or 120 when the model picks it.
+    const bpm = this.generationConfig.bpm ?? 120;
+    return duration * 4 * (60 / bpm) * 1000;
+  }
+
+  /**
+   * Moves the grid to `target`. With a transition duration set, the knobs
+   * start at their current weights and glide to the target ones.
+   */
+  private transitionTo(target: Map<string, Prompt>, durationMs = this.transitionDurationMs) {
+    if (durationMs <= 0) {
+      this.transition.cancel();
+      this.prompts = target;
+      this.requestUpdate();
+      this.dispatchPromptsChanged();
+      return;
+    }
+
+    const from = this.prompts;
+    this.prompts = new Map([...target].map(([id, p]) => [id, { ...p }]));
+    this.transition.start(from, target, durationMs, this.transitionSettings.curve);
+  }
+
+  private readonly handleTransitionFrame = (e: Event) => {
+    const { weights, outgoing } = (e as CustomEvent<TransitionFrame>).detail;
+    const newPrompts = new Map(this.prompts);
+    weights.forEach((weight, promptId) => {
+      const prompt = newPrompts.get(promptId);
+      if (prompt) newPrompts.set(promptId, { ...prompt, weight });
+    });
+    this.prompts = newPrompts;
+    this.requestUpdate();
+
+    // Prompts that left the grid keep sounding until they have faded out.
+    const sentPrompts = new Map(newPrompts);
+    outgoing.forEach((p) => sentPrompts.set(p.promptId, p));
+    this.dispatchPromptsChanged(sentPrompts);
+  };
+
+  private handleTransitionDurationChange(e: Event) {
+    const duration = Math.max(0, Number((e.target as HTMLInputElement).value) || 0);
+    this.transitionSettings = { ...this.transitionSettings, duration };
+  }
+
+  private handleTransitionUnitChange(e: Event) {
+    const unit = (e.target as HTMLSelectElement).value as TransitionSettings['unit'];
+    this.transitionSettings = { ...this.transitionSettings, unit };
+  }
+
+  private handleTransitionCurveChange(e: Event) {
+    const curve = (e.target as HTMLSelectElement).value as TransitionCurve;
+    this.transitionSettings = { ...this.transitionSettings, curve };
+  }
+
+  private saveScene(slot: number) {
+    this.sceneStore.save(slot, this.prompts, this.activeStyleName);
+    this.activeSceneSlot = slot;
+  }
+
+  private recallScene(slot: number) {
+    const scene = this.sceneStore.get(slot);
+    if (!scene) return;
+    const prompts = new Map<string, Prompt>();
+    scene.prompts.forEach((p) => prompts.set(p.promptId, { ...p }));
+
+    this.activeSceneSlot = slot;
+    this.activeStyleName = scene.styleName;
+    this.filteredPrompts.clear();
+    this.clearImage();
+    this.transitionTo(prompts, this.sceneMorphSeconds * 1000);
+  }
+
+  /** Digits recall scenes, Shift+digit saves them, unless the user is typing. */
+  private readonly handleSceneKey = (e: KeyboardEvent) => {
+    const target = e.composedPath()[0] as HTMLElement;
+    if (target instanceof HTMLInputElement || target instanceof HTMLSelectElement || target.isContentEditable) return;
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const match = /^Digit([1-9])$/.exec(e.code);
+    if (!match) return;
+    const slot = Number(match[1]) - 1;
+    if (slot >= SCENE_SLOT_COUNT) return;
+
+    e.preventDefault();
+    if (e.shiftKey) {
+      this.saveScene(slot);
+    } else {
+      this.recallScene(slot);
+    }
+  };
+
+  /** A mapping target's name: a prompt's text, a control's label or an action's. */
+  private readonly midiTargetLabel = (target: string) => {
+    const [group, key] = target.split(':');
+    if (group === 'gen' || group === 'fx') return t(`${group}_${key}`);
+    if (group === 'action') return this.midiActions.find(({ id }) => id === key)?.label() ?? key;
+    if (target === 'crossfader') return t('crossfader');
+    return this.prompts.get(target)?.text ?? target;
+  };
+
+  /** Actions fire as their button or pad goes down, whether it sends notes or CCs. */
+  private readonly handleActionControl = (e: Event) => {
+    const { target, kind, value } = (e as CustomEvent<MidiControlMessage>).detail;
+    const action = this.midiActions.find(({ id }) => target === `action:${id}`);
+    if (!action) return;
+    if (kind === 'cc') {
+      const wasDown = (this.actionCcValues.get(target) ?? 0) >= 64;
+      this.actionCcValues.set(target, value);
+      if (wasDown || value < 64) return;
+    } else if (kind !== 'note-on') {
+      return;
+    }
+    action.run();
+  };
+
+  private exportScenes() {
+    const blob = new Blob([this.sceneStore.toJSON()], { type: 'application/json' });
+    downloadBlob(blob, 'prompt-dj-scenes.json');
+  }
+
+  private importScenes(e: CustomEvent<string>) {
+    try {
+      this.sceneStore.import(e.detail);
+      this.activeSceneSlot = null;
+    } catch (err) {
+      console.error(err);
+      this.dispatchEvent(new CustomEvent('error', { detail: 'sceneImportError' }));
+    }
+  }
+
   /** Generates radial gradients for each prompt based on weight and color. */
   private readonly makeBackground = throttle(
     () => {
@@ -303,7 +713,10 @@ export class PromptDjMidi extends LitElement {
 
   public async setShowMidi(show: boolean) {
     this.showMidi = show;
-    if (!this.showMidi) return;
+    if (!this.showMidi) {
+      this.midiDispatcher.learn(null);
+      return;
+    }
     await this.refreshMidiDevices();
   }
 
@@ -311,18 +724,135 @@ export class PromptDjMidi extends LitElement {
     try {
       const inputIds = await this.midiDispatcher.getMidiAccess();
       this.midiInputIds = inputIds;
-      this.activeMidiInputId = this.midiDispatcher.activeMidiInputId;
+      this.restoreMidiProfiles();
+      this.midiOutputIds = this.midiDispatcher.getMidiOutputIds();
+      if (this.clockOutputId && !this.midiOutputIds.includes(this.clockOutputId)) {
+        this.setClockOutput('');
+      }
     } catch (e: any) {
       this.showMidi = false;
       this.dispatchEvent(new CustomEvent('error', {detail: e.message}));
     }
   }
 
-  private handleMidiInputChange(event: Event) {
-    const selectElement = event.target as HTMLSelectElement;
-    const newMidiId = selectElement.value;
-    this.activeMidiInputId = newMidiId;
-    this.midiDispatcher.activeMidiInputId = newMidiId;
+  private setClockOutput(id: string) {
+    this.clockOutputId = id;
+    this.dispatchEvent(new CustomEvent<MIDIOutput | null>('clock-output-changed', {
+      detail: id ? this.midiDispatcher.getOutput(id) : null,
+    }));
+  }
+
+  private setFeedbackOutput(id: string) {
+    this.feedbackOutputId = id;
+    this.midiDispatcher.setFeedbackOutput(id || null);
+  }
+
+  /**
+   * Gives each newly connected device its saved mappings, or the bundled
+   * preset for it the first time it is seen.
+   */
+  private restoreMidiProfiles() {
+    for (const device of this.midiDispatcher.getInputNames()) {
+      if (this.profiledDevices.has(device)) continue;
+      this.profiledDevices.add(device);
+      this.applyMidiProfile(device, this.midiProfiles.get(device) ?? findPreset(device)?.mappings);
+    }
+  }
+
+  /** Maps `device` as `mappings` say, if given, and saves its profile and no other. */
+  private applyMidiProfile(device: string, mappings?: MidiMapping[]) {
+    if (mappings) {
+      this.applyingMidiProfile = true;
+      try {
+        this.midiDispatcher.applyMappings(device, mappings);
+      } finally {
+        this.applyingMidiProfile = false;
+      }
+    }
+    this.midiProfiles.save(device, this.midiDispatcher.getDeviceMappings(device));
+  }
+
+  private readonly saveMidiProfiles = () => {
+    if (this.applyingMidiProfile) return;
+    for (const device of this.profiledDevices) {
+      this.midiProfiles.save(device, this.midiDispatcher.getDeviceMappings(device));
+    }
+  };
+
+  /** Loads a bundled preset onto an input, or clears what was learned on it. */
+  private handleMidiPresetChange(id: string, e: Event) {
+    const select = e.target as HTMLSelectElement;
+    const device = this.midiDispatcher.getDeviceName(id);
+    if (device) {
+      const preset = MIDI_PRESETS.find((p) => p.name === select.value);
+      this.profiledDevices.add(device);
+      this.applyMidiProfile(device, preset?.mappings ?? []);
+    }
+    select.value = '';
+  }
+
+  private exportMidiProfiles() {
+    const blob = new Blob([this.midiProfiles.toJSON()], { type: 'application/json' });
+    downloadBlob(blob, 'prompt-dj-midi-mappings.json');
+  }
+
+  private triggerMidiProfileImport() {
+    this.shadowRoot?.getElementById('midi-profile-input')?.click();
+  }
+
+  private async handleMidiProfileSelected(e: Event) {
+    const input = e.target as HTMLInputElement;
+    if (!input.files || input.files.length === 0) return;
+    const text = await input.files[0].text();
+    input.value = '';
+    try {
+      const devices = this.midiProfiles.import(text);
+      const connected = this.midiDispatcher.getInputNames();
+      for (const device of devices) {
+        if (!connected.includes(device)) continue;
+        this.profiledDevices.add(device);
+        this.applyMidiProfile(device, this.midiProfiles.get(device)!);
+      }
+    } catch (err) {
+      console.error(err);
+      this.dispatchEvent(new CustomEvent('error', { detail: 'midiProfileImportError' }));
+    }
+  }
+
+  private toggleMidiInput(id: string, e: Event) {
+    this.midiDispatcher.setInputEnabled(id, (e.target as HTMLInputElement).checked);
+    this.requestUpdate();
+  }
+
+  /** Every input is listened to at once; each can be switched off here. */
+  private renderMidiInputs() {
+    const enabled = this.midiInputIds.filter((id) => this.midiDispatcher.isInputEnabled(id));
+    return html`<details id="midi-inputs" style=${this.showMidi ? '' : 'visibility: hidden'}>
+      <summary>${this.midiInputIds.length > 0
+        ? t('midiInputs', { count: String(enabled.length), total: String(this.midiInputIds.length) })
+        : t('noMidiDevices')}</summary>
+      ${this.midiInputIds.length > 0 ? html`<div>
+        ${this.midiInputIds.map((id) => html`<div class="midi-input">
+          <label>
+            <input
+              type="checkbox"
+              .checked=${this.midiDispatcher.isInputEnabled(id)}
+              @change=${(e: Event) => this.toggleMidiInput(id, e)}>
+            ${this.midiDispatcher.getDeviceName(id)}
+          </label>
+          <select title=${t('midiPresetHint')} @change=${(e: Event) => this.handleMidiPresetChange(id, e)}>
+            <option value="">${t('midiPreset')}</option>
+            ${MIDI_PRESETS.map((preset) => html`<option value=${preset.name}>${preset.name}</option>`)}
+            <option value="clear">${t('midiPresetClear')}</option>
+          </select>
+        </div>`)}
+        <div class="midi-input">
+          <button @click=${this.exportMidiProfiles}>${t('midiMappingsExport')}</button>
+          <button @click=${this.triggerMidiProfileImport}>${t('midiMappingsImport')}</button>
+          <input type="file" id="midi-profile-input" accept="application/json,.json" @change=${this.handleMidiProfileSelected}>
+        </div>
+      </div>` : ''}
+    </details>`;
   }
 
   private buildPromptsForStyle(style: Style): Map<string, Prompt> {
@@ -349,31 +879,39 @@ export class PromptDjMidi extends LitElement {
   
   private handleStyleChange(event: Event) {
     const selectElement = event.target as HTMLSelectElement;
-    const styleName = selectElement.value;
-    
+    this.selectStyle(selectElement.value);
+  }
+
+  private selectStyle(styleName: string) {
     if (styleName === 'style_analysis_mix') return;
 
     const selectedStyle = this.styles.find(s => s.name === styleName);
 
     if (selectedStyle) {
       this.activeStyleName = selectedStyle.name;
-      this.prompts = this.buildPromptsForStyle(selectedStyle);
       this.filteredPrompts.clear();
       this.clearImage();
-      this.requestUpdate();
-      this.dispatchEvent(
-        new CustomEvent('prompts-changed', { detail: this.prompts }),
-      );
+      this.transitionTo(this.buildPromptsForStyle(selectedStyle));
     }
   }
 
+  /** Moves to the style before or after the current one; from a mix, to the first or last. */
+  private stepStyle(direction: 1 | -1) {
+    if (this.styles.length === 0) return;
+    const index = this.styles.findIndex((s) => s.name === this.activeStyleName);
+    const next = index === -1
+      ? (direction === 1 ? 0 : this.styles.length - 1)
+      : (index + direction + this.styles.length) % this.styles.length;
+    this.selectStyle(this.styles[next].name);
+  }
+
   private handleLanguageChange(event: Event) {
     const selectElement = event.target as HTMLSelectElement;
     setLanguage(selectElement.value);
   }
 
   private randomizePrompts() {
-    const newPrompts = new Map(this.prompts);
+    const newPrompts = new Map([...this.prompts].map(([id, p]) => [id, { ...p }]));
     this.clearImage();
   
     // Reset all weights to 0
@@ -393,11 +931,7 @@ export class PromptDjMidi extends LitElement {
       prompt.weight = 0.5 + Math.random();
     });
   
-    this.prompts = newPrompts;
-    this.requestUpdate();
-    this.dispatchEvent(
-      new CustomEvent('prompts-changed', { detail: this.prompts }),
-    );
+    this.transitionTo(newPrompts);
   }
 
   private randomizeAllPrompts() {
@@ -446,21 +980,374 @@ export class PromptDjMidi extends LitElement {
     }
     
     // Update state
-    this.prompts = newPrompts;
     this.activeStyleName = 'style_analysis_mix';
     this.filteredPrompts.clear();
+    this.transitionTo(newPrompts);
+  }
+
+  private playPause() {
+    this.dispatchEvent(new CustomEvent('play-pause'));
+  }
+
+  private toggleGenerationControls() {
+    this.showGenerationControls = !this.showGenerationControls;
+  }
+
+  private handleGenerationConfigChanged(e: CustomEvent<LiveMusicGenerationConfig>) {
+    this.generationConfig = e.detail;
+    this.dispatchEvent(
+      new CustomEvent('generation-config-changed', { detail: this.generationConfig }),
+    );
+  }
+
+  private toggleMasterFx() {
+    this.showMasterFx = !this.showMasterFx;
+  }
+
+  private handleMasterFxChanged(e: CustomEvent<MasterFxParams>) {
+    this.masterFx = e.detail;
+    this.dispatchEvent(
+      new CustomEvent<MasterFxParams>('master-fx-changed', { detail: this.masterFx }),
+    );
+  }
+
+  private get isStopped() {
+    return this.playbackState === 'stopped' || this.playbackState === 'paused';
+  }
+
+  /**
+   * Turns two-deck mode on or off. Deck B starts on the style after the one
+   * on the grid, so the decks differ from the start.
+   */
+  public setTwoDeckMode(enabled: boolean) {
+    if (enabled === this.twoDeckMode) return;
+    if (!enabled) {
+      if (this.cued.has('B')) this.toggleCue('B');
+      this.switchDeck('A');
+      this.offDeck = null;
+      this.twoDeckMode = false;
+      this.dispatchEvent(new CustomEvent<boolean>('two-deck-mode-changed', { detail: false }));
+      return;
+    }
+    const index = this.styles.findIndex((s) => s.name === this.activeStyleName);
+    const style = this.styles[(index + 1) % this.styles.length];
+    this.offDeck = { prompts: this.buildPromptsForStyle(style), styleName: style.name };
+    this.twoDeckMode = true;
+    this.dispatchEvent(new CustomEvent<boolean>('two-deck-mode-changed', { detail: true }));
+    this.dispatchPromptsChanged(this.offDeck.prompts, 'B');
+  }
+
+  /** Puts the other deck on the grid. A running transition lands first. */
+  private switchDeck(deck: DeckId) {
+    if (deck === this.activeDeck || !this.offDeck) return;
+    if (this.transition.isRunning) {
+      this.transition.cancel();
+      this.dispatchPromptsChanged();
+    }
+    const { prompts, styleName } = this.offDeck;
+    this.offDeck = { prompts: this.prompts, styleName: this.activeStyleName };
+    this.prompts = prompts;
+    this.activeStyleName = styleName;
+    this.activeDeck = deck;
+    this.activeSceneSlot = null;
+    this.clearImage();
     this.requestUpdate();
+  }
+
+  private handleCrossfaderChanged(e: CustomEvent<CrossfaderState>) {
+    this.crossfader = e.detail;
     this.dispatchEvent(
-      new CustomEvent('prompts-changed', { detail: this.prompts }),
+      new CustomEvent<CrossfaderState>('crossfader-changed', { detail: this.crossfader }),
     );
   }
 
-  private playPause() {
-    this.dispatchEvent(new CustomEvent('play-pause'));
+  private renderDeckBar() {
+    return html`<div id="deck-bar" style=${this.twoDeckMode ? '' : 'display: none'}>
+      ${(['A', 'B'] as const).map((deck) => html`<button
+        class=${deck === this.activeDeck ? 'active' : ''}
+        @click=${() => this.switchDeck(deck)}>
+        ${t('deck', { deck })}
+      </button>`)}
+      <deck-crossfader
+        .crossfader=${this.crossfader}
+        .midiDispatcher=${this.midiDispatcher}
+        .showCC=${this.showMidi}
+        @crossfader-changed=${this.handleCrossfaderChanged}>
+      </deck-crossfader>
+    </div>`;
+  }
+
+  /** The deck on the grid. */
+  public getActiveDeck(): DeckId {
+    return this.activeDeck;
+  }
+
+  /** The translation key of the style on the grid. */
+  public getStyleName(): string {
+    return this.activeStyleName;
+  }
+
+  /** The config to send to a freshly created session. */
+  public getGenerationConfig(): LiveMusicGenerationConfig {
+    return this.generationConfig;
+  }
+
+  private handleRecordingLimitChange(e: Event) {
+    const value = (e.target as HTMLSelectElement).value;
+    this.dispatchEvent(
+      new CustomEvent<number | null>('recording-limit-changed', { detail: value ? Number(value) : null }),
+    );
+  }
+
+  private triggerReplayUpload() {
+    this.shadowRoot?.getElementById('replay-upload-input')?.click();
+  }
+
+  private async handleReplayFileSelected(e: Event) {
+    const input = e.target as HTMLInputElement;
+    if (!input.files || input.files.length === 0) return;
+    const json = await input.files[0].text();
+    input.value = '';
+    this.dispatchEvent(new CustomEvent('replay-requested', {
+      detail: { json, lengthScale: this.replayLengthScale },
+    }));
+  }
+
+  private requestReplayStop() {
+    this.dispatchEvent(new CustomEvent('replay-stop-requested'));
+  }
+
+  public startReplay() {
+    this.isReplaying = true;
+    this.replayOverrides.clear();
+  }
+
+  public finishReplay() {
+    this.isReplaying = false;
+    this.replayOverrides.clear();
+  }
+
+  /**
+   * Moves a deck's grid to a replayed prompt snapshot. Prompts missing from
+   * the grid take over slots that are silent in the snapshot, and prompts the
+   * user has taken over keep their weight.
+   */
+  public applyReplayPrompts(snapshot: WeightedPromptSnapshot[], deck = this.activeDeck) {
+    if (deck !== this.activeDeck && this.offDeck) {
+      const { prompts, mixed } = this.replayGrid(this.offDeck.prompts, snapshot);
+      this.offDeck = { prompts, styleName: mixed ? 'style_analysis_mix' : this.offDeck.styleName };
+      this.dispatchPromptsChanged(prompts, deck);
+      return;
+    }
+
+    const { prompts, mixed } = this.replayGrid(this.prompts, snapshot);
+    if (mixed) this.activeStyleName = 'style_analysis_mix';
+    this.transition.cancel();
+    this.prompts = prompts;
+    this.requestUpdate();
+    this.dispatchPromptsChanged();
+  }
+
+  /** The grid after a replayed snapshot; `mixed` when prompts from elsewhere came in. */
+  private replayGrid(current: Map<string, Prompt>, snapshot: WeightedPromptSnapshot[]) {
+    const weights = new Map(snapshot.map((p) => [p.text, p.weight]));
+    const grid = [...current.values()].map((p) => ({ ...p }));
+    const onGrid = new Set(grid.map((p) => p.text));
+    const missing = snapshot.filter((p) => !onGrid.has(p.text));
+    let mixed = false;
+
+    for (const prompt of grid) {
+      if (this.replayOverrides.has(prompt.text)) continue;
+      const weight = weights.get(prompt.text);
+      if (weight !== undefined) {
+        prompt.weight = weight;
+        continue;
+      }
+      const incoming = missing.shift();
+      if (incoming) {
+        prompt.text = incoming.text;
+        prompt.color = this.allPromptsMap.get(incoming.text)?.color ?? '#9e9e9e';
+        prompt.weight = incoming.weight;
+        mixed = true;
+      } else {
+        prompt.weight = 0;
+      }
+    }
+    return { prompts: new Map(grid.map((p) => [p.promptId, p])), mixed };
+  }
+
+  /** Applies a replayed config, keeping the current seed so the take differs. */
+  public applyReplayConfig(config: LiveMusicGenerationConfig) {
+    const { seed } = this.generationConfig;
+    const newConfig = { ...config };
+    delete newConfig.seed;
+    if (seed !== undefined) newConfig.seed = seed;
+    this.generationConfig = newConfig;
+    this.dispatchEvent(
+      new CustomEvent('generation-config-changed', { detail: this.generationConfig }),
+    );
+  }
+
+  public applyReplayCrossfader(crossfader: CrossfaderState) {
+    this.crossfader = { ...crossfader };
+    this.dispatchEvent(
+      new CustomEvent<CrossfaderState>('crossfader-changed', { detail: this.crossfader }),
+    );
+  }
+
+  public applyReplayMasterFx(fx: MasterFxParams) {
+    this.masterFx = { ...fx };
+    this.dispatchEvent(
+      new CustomEvent<MasterFxParams>('master-fx-changed', { detail: this.masterFx }),
+    );
+  }
+
+  private formatTime(seconds: number) {
+    const s = Math.floor(seconds);
+    return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+  }
+
+  private renderReplayControls() {
+    return html`<div id="replay-controls">
+      <input type="file" id="replay-upload-input" accept="application/json,.json" @change=${this.handleReplayFileSelected}>
+      ${this.isReplaying ? html`
+        <span>${this.formatTime(this.replayPosition)} / ${this.formatTime(this.replayLength)}</span>
+        <button @click=${this.requestReplayStop}>${t('replayStop')}</button>
+      ` : html`
+        <select
+          title=${t('replayLength')}
+          .value=${String(this.replayLengthScale)}
+          @change=${(e: Event) => this.replayLengthScale = Number((e.target as HTMLSelectElement).value)}>
+          ${[0.5, 0.75, 1, 1.5, 2].map((scale) => html`<option value=${scale}>${scale * 100}%</option>`)}
+        </select>
+        <button @click=${this.triggerReplayUpload}>${t('replaySession')}</button>
+      `}
+    </div>`;
+  }
+
+  private renderLoudness(stats: LoudnessStats) {
+    const format = (value: number) => Number.isFinite(value) ? value.toFixed(1) : '-∞';
+    return html`<div id="loudness">
+      ${t('loudnessReadout', {
+        momentary: format(stats.momentary),
+        shortTerm: format(stats.shortTerm),
+        maxShortTerm: format(stats.maxShortTerm),
+        integrated: format(stats.integrated),
+      })}
+      <span class=${stats.truePeak > 0 ? 'over' : ''}>${t('truePeakReadout', { truePeak: format(stats.truePeak) })}</span>
+    </div>`;
+  }
+
+  private renderLoopControls() {
+    return html`<div id="loop-controls">
+      <select
+        title=${t('loopLength')}
+        .value=${String(this.loopBars)}
+        @change=${(e: Event) => this.loopBars = Number((e.target as HTMLSelectElement).value)}>
+        ${[4, 8, 16, 32].map((bars) => html`<option value=${bars}>${t('loopBars', { bars: String(bars) })}</option>`)}
+      </select>
+      <select
+        title=${t('loopSkip')}
+        .value=${String(this.loopSkipSeconds)}
+        @change=${(e: Event) => this.loopSkipSeconds = Number((e.target as HTMLSelectElement).value)}>
+        ${[0, 2, 4, 8].map((seconds) => html`<option value=${seconds}>${t('loopSkipSeconds', { seconds: String(seconds) })}</option>`)}
+      </select>
+      <button @click=${this.requestLoopDownload} ?disabled=${this.isDownloadingLoop || !this.hasActivePrompts}>
+        ${this.isDownloadingLoop ? t('downloadingLoop') : t('downloadLoop')}
+      </button>
+    </div>`;
+  }
+
+  private renderCueControls() {
+    if (!CueOutput.isSupported) return '';
+    const sources: CueSource[] = this.twoDeckMode ? ['A', 'B', 'loop'] : ['A', 'loop'];
+    return html`<div id="cue-controls">
+      <select title=${t('cueOutput')} .value=${this.cueDeviceId} @change=${this.handleCueDeviceChange}>
+        <option value="">${t('cueOff')}</option>
+        ${this.cueDevices.map((device, i) => html`<option value=${device.deviceId}>
+          ${device.label || t('cueDevice', { number: String(i + 1) })}
+        </option>`)}
+      </select>
+      ${sources.map((source) => html`<button
+        class=${this.cued.has(source) ? 'active' : ''}
+        ?disabled=${!this.cueDeviceId || (source === 'loop' && (this.isLoadingLoopCue || (!this.cued.has('loop') && !this.hasActivePrompts)))}
+        @click=${() => this.toggleCue(source)}>
+        ${source === 'loop'
+          ? (this.isLoadingLoopCue ? t('cueLoopLoading') : t('cueLoop'))
+          : t('cueDeck', { deck: source })}
+      </button>`)}
+    </div>`;
+  }
+
+  private handleCueDeviceChange(e: Event) {
+    this.cueDeviceId = (e.target as HTMLSelectElement).value;
+    this.dispatchEvent(new CustomEvent<string | null>('cue-device-changed', { detail: this.cueDeviceId || null }));
+  }
+
+  /**
+   * Cues a deck or takes it off the cue. Cueing the loop renders the loop
+   * of the deck on the grid, which takes as long as a loop download.
+   */
+  private toggleCue(source: CueSource) {
+    const enabled = !this.cued.has(source);
+    const cued = new Set(this.cued);
+    if (source === 'loop') {
+      if (enabled) {
+        this.isLoadingLoopCue = true;
+        this.dispatchEvent(new CustomEvent<{ loop: LoopOptions; deck: DeckId }>('loop-cue-requested', {
+          detail: { loop: { bars: this.loopBars, skipSeconds: this.loopSkipSeconds }, deck: this.activeDeck },
+        }));
+        return;
+      }
+      cued.delete('loop');
+      this.dispatchEvent(new CustomEvent('loop-cue-stop-requested'));
+    } else {
+      if (enabled) cued.add(source); else cued.delete(source);
+      this.dispatchEvent(new CustomEvent<{ deck: DeckId; enabled: boolean }>('cue-changed', {
+        detail: { deck: source, enabled },
+      }));
+    }
+    this.cued = cued;
+  }
+
+  /** Called once a requested loop cue is playing, or has failed. */
+  public finishLoopCue(playing: boolean) {
+    this.isLoadingLoopCue = false;
+    const cued = new Set(this.cued);
+    if (playing) cued.add('loop'); else cued.delete('loop');
+    this.cued = cued;
   }
 
   private requestDownload() {
-    this.dispatchEvent(new CustomEvent('download-requested'));
+    if (this.exportProgress !== null) return;
+    this.exportTarget = 'recording';
+  }
+
+  private handleExportConfirmed(e: CustomEvent<ExportOptions>) {
+    this.exportOptions = e.detail;
+    this.startExport(this.exportTarget === 'loop' ? 'loop' : 'recording', e.detail);
+    this.exportTarget = null;
+  }
+
+  private startExport(target: 'recording' | 'loop', options: ExportOptions) {
+    if (target === 'loop') {
+      this.dispatchEvent(new CustomEvent<{ loop: LoopOptions; options: ExportOptions; deck: DeckId }>('loop-download-requested', {
+        detail: { loop: { bars: this.loopBars, skipSeconds: this.loopSkipSeconds }, options, deck: this.activeDeck },
+      }));
+    } else {
+      this.dispatchEvent(new CustomEvent<ExportOptions>('download-requested', { detail: options }));
+    }
+  }
+
+  /** Downloads from hardware, where there is no dialog, with the options last chosen. */
+  private exportWithLastOptions(target: 'recording' | 'loop') {
+    if (target === 'recording' && (!this.isDownloadable || this.exportProgress !== null)) return;
+    if (target === 'loop' && (this.isDownloadingLoop || !this.hasActivePrompts)) return;
+    this.startExport(target, this.exportOptions);
+  }
+
+  private requestSessionDownload() {
+    this.dispatchEvent(new CustomEvent('session-download-requested'));
   }
 
   public addFilteredPrompt(promptKey: string) {
@@ -558,10 +1445,8 @@ export class PromptDjMidi extends LitElement {
     }
 
     this.activeStyleName = 'style_analysis_mix';
-    this.prompts = newPrompts;
     this.filteredPrompts.clear();
-    this.requestUpdate();
-    this.dispatchEvent(new CustomEvent('prompts-changed', { detail: this.prompts }));
+    this.transitionTo(newPrompts);
   }
 
   private clearImage() {
@@ -599,13 +1484,122 @@ export class PromptDjMidi extends LitElement {
     }
   }
 
+  private async toggleLiveInput() {
+    if (this.isLiveInputOn) {
+      this.liveInput.stop();
+      this.isLiveInputOn = false;
+      return;
+    }
+    try {
+      await this.liveInput.start(this.liveInputDeviceId || undefined);
+    } catch (err) {
+      console.error(err);
+      this.dispatchEvent(new CustomEvent('error', { detail: 'liveInputError' }));
+      return;
+    }
+    this.isLiveInputOn = true;
+    try {
+      // Device names are only listed once permission has been given.
+      this.liveInputDevices = await LiveInput.listDevices();
+    } catch (err) {
+      console.error(err);
+      this.dispatchEvent(new CustomEvent('error', { detail: 'liveInputDevicesError' }));
+    }
+  }
+
+  private handleLiveInputDeviceChange(e: Event) {
+    this.liveInputDeviceId = (e.target as HTMLSelectElement).value;
+    if (!this.isLiveInputOn) return;
+    this.isLiveInputOn = false;
+    this.toggleLiveInput();
+  }
+
+  private readonly handleLiveClip = async (e: Event) => {
+    if (this.isLiveInputFrozen || this.isAnalyzingLiveInput) return;
+    const clip = (e as CustomEvent<{ data: string; mimeType: string }>).detail;
+    this.isAnalyzingLiveInput = true;
+    try {
+      const result = await this.analyzeAudio(clip, this.styles);
+      // The input may have been stopped or frozen while the model listened.
+      if (this.isLiveInputOn && !this.isLiveInputFrozen) this.steerTowardsAnalysis(result);
+    } catch (err) {
+      console.error(err);
+      this.dispatchEvent(new CustomEvent('error', { detail: 'audioAnalysisFailedError' }));
+    } finally {
+      this.isAnalyzingLiveInput = false;
+    }
+  };
+
+  /**
+   * Moves the grid part of the way towards an analysis, by the live input
+   * influence. Prompts it heard that are not on the grid take over silent
+   * slots, and prompts it did not hear fade down.
+   */
+  private steerTowardsAnalysis(result: AnalysisResponse) {
+    const targets = new Map<string, number>();
+    for (const p of result.prompts ?? []) {
+      if (this.allPromptsMap.has(p.text)) targets.set(p.text, p.weight);
+    }
+    if (targets.size === 0) return;
+
+    const grid = [...this.prompts.values()].map((p) => ({ ...p }));
+    const onGrid = new Set(grid.map((p) => p.text));
+    const missing = [...targets.keys()].filter((text) => !onGrid.has(text));
+    for (const prompt of grid) {
+      if (!targets.has(prompt.text) && prompt.weight < SILENT_WEIGHT && missing.length > 0) {
+        prompt.text = missing.shift()!;
+        prompt.color = this.allPromptsMap.get(prompt.text)!.color;
+        prompt.weight = 0;
+        this.activeStyleName = 'style_analysis_mix';
+      }
+      const target = targets.get(prompt.text) ?? 0;
+      prompt.weight += this.liveInfluence * (target - prompt.weight);
+    }
+    this.transitionTo(new Map(grid.map((p) => [p.promptId, p])));
+  }
+
+  private renderLiveInputControls() {
+    return html`<div id="live-input-controls">
+      <button
+        class=${this.isLiveInputOn ? 'active' : ''}
+        title=${t('liveInputHint')}
+        @click=${this.toggleLiveInput}>
+        ${this.isAnalyzingLiveInput ? t('analyzing') : t('liveInput')}
+      </button>
+      ${this.isLiveInputOn ? html`
+        ${this.liveInputDevices.length > 1 ? html`<select
+          title=${t('liveInputDevice')}
+          .value=${this.liveInputDeviceId}
+          @change=${this.handleLiveInputDeviceChange}>
+          <option value="">${t('liveInputDefault')}</option>
+          ${this.liveInputDevices.map((device, i) => html`<option value=${device.deviceId}>
+            ${device.label || t('liveInputNumber', { number: String(i + 1) })}
+          </option>`)}
+        </select>` : ''}
+        <input
+          type="range"
+          min="0.05"
+          max="1"
+          step="0.05"
+          title=${t('liveInfluence', { percent: String(Math.round(this.liveInfluence * 100)) })}
+          .value=${String(this.liveInfluence)}
+          @input=${(e: Event) => this.liveInfluence = Number((e.target as HTMLInputElement).value)}>
+        <button
+          class=${this.isLiveInputFrozen ? 'active' : ''}
+          @click=${() => this.isLiveInputFrozen = !this.isLiveInputFrozen}>
+          ${t('freeze')}
+        </button>
+      ` : ''}
+    </div>`;
+  }
+
   private get hasActivePrompts(): boolean {
     return [...this.prompts.values()].some(p => p.weight > 0);
   }
 
   private requestLoopDownload() {
     if (this.isDownloadingLoop) return;
-    this.dispatchEvent(new CustomEvent('loop-download-requested'));
+    this.exportTarget = 'loop';
   }
 
   public startLoopDownload() {
@@ -654,6 +1648,24 @@ export class PromptDjMidi extends LitElement {
           ${this.activeStyleName === 'style_analysis_mix' ? html`<option value="style_analysis_mix">${t('style_analysis_mix')}</option>`: ''}
           ${this.styles.map(style => html`<option value=${style.name}>${t(style.name)}</option>`)}
         </select>
+        <div id="transition-controls">
+          <span>${t('transition')}</span>
+          <input
+            type="number"
+            min="0"
+            step=${this.transitionSettings.unit === 'bars' ? 1 : 0.5}
+            .value=${String(this.transitionSettings.duration)}
+            @change=${this.handleTransitionDurationChange}>
+          <select @change=${this.handleTransitionUnitChange} .value=${this.transitionSettings.unit}>
+            <option value="seconds">${t('transitionSeconds')}</option>
+            <option value="bars">${t('transitionBars')}</option>
+          </select>
+          <select @change=${this.handleTransitionCurveChange} .value=${this.transitionSettings.curve}>
+            <option value="linear">${t('curveLinear')}</option>
+            <option value="ease">${t('curveEase')}</option>
+            <option value="equal-power">${t('curveEqualPower')}</option>
+          </select>
+        </div>
         <button @click=${this.randomizePrompts}>${t('randomize')}</button>
         <button @click=${this.randomizeAllPrompts}>${t('randomizeAll')}</button>
         <div id="audio-controls">
@@ -662,6 +1674,7 @@ export class PromptDjMidi extends LitElement {
             ${this.isAnalyzing ? t('analyzing') : t('analyzeAudio')}
           </button>
         </div>
+        ${this.renderLiveInputControls()}
         <div id="image-controls">
           <input type="file" id="image-upload-input" accept="image/*" @change=${this.handleImageSelected}>
           <button @click=${this.triggerImageUpload} ?disabled=${this.isAnalyzing}>
@@ -677,31 +1690,136 @@ export class PromptDjMidi extends LitElement {
           class=${this.showMidi ? 'active' : ''}
           >${t('midi')}</button
         >
-        <button @click=${this.requestDownload} ?disabled=${!this.isDownloadable}>
-          ${t('download')}
+        ${this.showMidi ? html`<button
+          @click=${() => this.showMidiActions = !this.showMidiActions}
+          class=${this.showMidiActions ? 'active' : ''}
+          >${t('midiActions')}</button>` : ''}
+        ${this.showMidi ? html`<button
+          @click=${() => this.showMidiMappings = !this.showMidiMappings}
+          class=${this.showMidiMappings ? 'active' : ''}
+          >${t('midiMappings')}</button>` : ''}
+        <button
+          @click=${this.toggleGenerationControls}
+          class=${this.showGenerationControls ? 'active' : ''}
+          >${t('generation')}</button
+        >
+        <button
+          @click=${this.toggleMasterFx}
+          class=${this.showMasterFx ? 'active' : ''}
+          >${t('masterFx')}</button
+        >
+        <button
+          @click=${() => this.setTwoDeckMode(!this.twoDeckMode)}
+          class=${this.twoDeckMode ? 'active' : ''}
+          ?disabled=${!this.isStopped}
+          title=${t('twoDecksHint')}
+          >${t('twoDecks')}</button
+        >
+        <select @change=${this.handleRecordingLimitChange} title=${t('recordingLimit')}>
+          <option value="">${t('recordWholeSet')}</option>
+          ${[10, 30, 60].map((minutes) => html`<option value=${minutes}>
+            ${t('recordLastMinutes', { minutes: String(minutes) })}
+          </option>`)}
+        </select>
+        <button @click=${this.requestDownload} ?disabled=${!this.isDownloadable || this.exportProgress !== null}>
+          ${this.exportProgress !== null
+            ? t('exportProgress', { percent: String(Math.round(this.exportProgress * 100)) })
+            : t('download')}
         </button>
-        <button @click=${this.requestLoopDownload} ?disabled=${this.isDownloadingLoop || !this.hasActivePrompts}>
-          ${this.isDownloadingLoop ? t('downloadingLoop') : t('downloadLoop')}
+        <button @click=${this.requestSessionDownload} ?disabled=${!this.isDownloadable}>
+          ${t('downloadSession')}
         </button>
+        ${this.renderReplayControls()}
+        ${this.renderLoopControls()}
+        ${this.renderCueControls()}
+        ${this.renderMidiInputs()}
         <select
-          @change=${this.handleMidiInputChange}
-          .value=${this.activeMidiInputId || ''}
+          title=${t('midiClockOut')}
+          @change=${(e: Event) => this.setClockOutput((e.target as HTMLSelectElement).value)}
+          .value=${this.clockOutputId}
           style=${this.showMidi ? '' : 'visibility: hidden'}>
-          ${this.midiInputIds.length > 0
-        ? this.midiInputIds.map(
-          (id) =>
-            html`<option value=${id}>
-                    ${this.midiDispatcher.getDeviceName(id)}
-                  </option>`,
-        )
-        : html`<option value="">${t('noMidiDevices')}</option>`}
+          <option value="">${t('midiClockOff')}</option>
+          ${this.midiOutputIds.map((id) => html`<option value=${id}>
+            ${t('midiClockTo', { device: this.midiDispatcher.getOutputName(id) ?? id })}
+          </option>`)}
         </select>
+        <select
+          title=${t('midiFeedbackOut')}
+          @change=${(e: Event) => this.setFeedbackOutput((e.target as HTMLSelectElement).value)}
+          .value=${this.feedbackOutputId}
+          style=${this.showMidi ? '' : 'visibility: hidden'}>
+          <option value="">${t('midiFeedbackOff')}</option>
+          ${this.midiOutputIds.map((id) => html`<option value=${id}>
+            ${t('midiFeedbackTo', { device: this.midiDispatcher.getOutputName(id) ?? id })}
+          </option>`)}
+        </select>
+        ${this.showMidi && this.feedbackOutputId ? html`<button
+          title=${t('syncControllerHint')}
+          @click=${() => this.midiDispatcher.syncFeedback()}
+          >${t('syncController')}</button>` : ''}
+      </div>
+      <generation-controls
+        .config=${this.generationConfig}
+        .midiDispatcher=${this.midiDispatcher}
+        .showCC=${this.showMidi}
+        style=${this.showGenerationControls ? '' : 'display: none'}
+        @config-changed=${this.handleGenerationConfigChanged}>
+      </generation-controls>
+      <master-effects-controls
+        .params=${this.masterFx}
+        .midiDispatcher=${this.midiDispatcher}
+        .showCC=${this.showMidi}
+        style=${this.showMasterFx ? '' : 'display: none'}
+        @fx-changed=${this.handleMasterFxChanged}>
+      </master-effects-controls>
+      <div id="midi-panels">
+        <midi-action-controls
+          .actions=${this.midiActions.map(({ id, label }): MidiActionItem => ({ target: `action:${id}`, label: label() }))}
+          .midiDispatcher=${this.midiDispatcher}
+          style=${this.showMidi && this.showMidiActions ? '' : 'display: none'}>
+        </midi-action-controls>
+        <midi-mapping-table
+          .midiDispatcher=${this.midiDispatcher}
+          .targetLabel=${this.midiTargetLabel}
+          style=${this.showMidi && this.showMidiMappings ? '' : 'display: none'}>
+        </midi-mapping-table>
       </div>
       <div id="grid">
         ${this.renderPrompts()}
         <play-pause-button .playbackState=${this.playbackState} @click=${this.playPause}></play-pause-button>
+        ${this.playbackState === 'reconnecting' ? html`<div id="reconnecting">
+          ${t('reconnecting', { attempt: String(this.reconnectAttempt) })}
+        </div>` : ''}
       </div>
+      ${this.bufferStats && this.playbackState !== 'stopped' ? html`<div id="diagnostics">
+        ${t('bufferDiagnostics', {
+          buffered: this.bufferStats.bufferedSeconds.toFixed(1),
+          target: this.bufferStats.bufferTime.toFixed(1),
+          underruns: String(this.bufferStats.underruns),
+        })}
+      </div>` : ''}
+      ${this.exportTarget ? html`<export-dialog
+        .options=${this.exportOptions}
+        @export-confirmed=${this.handleExportConfirmed}
+        @export-cancelled=${() => this.exportTarget = null}>
+      </export-dialog>` : ''}
+      ${this.loudness ? this.renderLoudness(this.loudness) : ''}
+      ${this.trackedBpm !== null && this.playbackState === 'playing' ? html`<div id="tempo">
+        ${t('trackedTempo', { bpm: this.trackedBpm.toFixed(1) })}
+        ${this.beat ? `${this.beat.bar + 1}.${this.beat.beat + 1}` : ''}
+      </div>` : ''}
       <div id="footer-controls">
+        ${this.renderDeckBar()}
+        <scene-bar
+          .scenes=${this.sceneStore.scenes}
+          .activeSlot=${this.activeSceneSlot}
+          .morphSeconds=${this.sceneMorphSeconds}
+          @scene-save=${(e: CustomEvent<number>) => this.saveScene(e.detail)}
+          @scene-recall=${(e: CustomEvent<number>) => this.recallScene(e.detail)}
+          @morph-changed=${(e: CustomEvent<number>) => this.sceneMorphSeconds = e.detail}
+          @scenes-export=${this.exportScenes}
+          @scenes-import=${this.importScenes}>
+        </scene-bar>
         <div id="chat-container">
           <input
             id="chat-input"
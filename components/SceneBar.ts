@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { Scene } from '../types';
+import { t } from '../utils/i18n';
+
+/** A row of scene slots to save and recall the grid. */
+@customElement('scene-bar')
+export class SceneBar extends LitElement {
+  static override styles = css`
+    :host {
+      display: flex;
+      gap: 5px;
+      align-items: center;
+      flex-wrap: wrap;
+      justify-content: center;
+      color: #fff;
+      font-weight: 600;
+      -webkit-font-smoothing: antialiased;
+    }
+    button {
+      font: inherit;
+      cursor: pointer;
+      color: #fff;
+      background: #0002;
+      border: 1.5px solid #fff;
+      border-radius: 4px;
+      user-select: none;
+      padding: 3px 6px;
+      &.active {
+        background-color: #fff;
+        color: #000;
+      }
+      &.empty {
+        opacity: 0.5;
+      }
+      &.save-mode {
+        border-color: orange;
+        color: orange;
+      }
+    }
+    .slot {
+      min-width: 2.2em;
+    }
+    input {
+      font: inherit;
+      width: 3.5em;
+      padding: 3px;
+      border-radius: 4px;
+      border: none;
+    }
+    #import-input {
+      display: none;
+    }
+  `;
+
+  @property({ type: Array }) scenes: readonly (Scene | null)[] = [];
+  @property({ type: Number }) activeSlot: number | null = null;
+  @property({ type: Number }) morphSeconds = 0;
+
+  @state() private saveMode = false;
+
+  private readonly rerender = () => this.requestUpdate();
+
+  override connectedCallback() {
+    super.connectedCallback();
+    window.addEventListener('language-changed', this.rerender);
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    window.removeEventListener('language-changed', this.rerender);
+  }
+
+  private handleSlotClick(slot: number, e: MouseEvent) {
+    if (this.saveMode || e.shiftKey) {
+      this.saveMode = false;
+      this.dispatchEvent(new CustomEvent<number>('scene-save', { detail: slot }));
+    } else if (this.scenes[slot]) {
+      this.dispatchEvent(new CustomEvent<number>('scene-recall', { detail: slot }));
+    }
+  }
+
+  private handleMorphChange(e: Event) {
+    const seconds = Math.max(0, Number((e.target as HTMLInputElement).value) || 0);
+    this.dispatchEvent(new CustomEvent<number>('morph-changed', { detail: seconds }));
+  }
+
+  private triggerImport() {
+    this.shadowRoot?.getElementById('import-input')?.click();
+  }
+
+  private async handleImportSelected(e: Event) {
+    const input = e.target as HTMLInputElement;
+    if (!input.files || input.files.length === 0) return;
+    const text = await input.files[0].text();
+    input.value = '';
+    this.dispatchEvent(new CustomEvent<string>('scenes-import', { detail: text }));
+  }
+
+  override render() {
+    return html`
+      <span>${t('scenes')}</span>
+      ${this.scenes.map((scene, slot) => html`<button
+        class=${classMap({
+          slot: true,
+          active: slot === this.activeSlot,
+          empty: !scene,
+          'save-mode': this.saveMode,
+        })}
+        title=${scene ? t(scene.styleName) : t('sceneEmpty')}
+        @click=${(e: MouseEvent) => this.handleSlotClick(slot, e)}>
+        ${slot + 1}
+      </button>`)}
+      <button
+        class=${this.saveMode ? 'active' : ''}
+        title=${t('sceneSaveHint')}
+        @click=${() => this.saveMode = !this.saveMode}>
+        ${t('sceneSave')}
+      </button>
+      <span>${t('sceneMorph')}</span>
+      <input
+        type="number"
+        min="0"
+        step="0.5"
+        .value=${String(this.morphSeconds)}
+        @change=${this.handleMorphChange}>
+      <button @click=${() => this.dispatchEvent(new CustomEvent('scenes-export'))}>${t('sceneExport')}</button>
+      <input type="file" id="import-input" accept="application/json,.json" @change=${this.handleImportSelected}>
+      <button @click=${this.triggerImport}>${t('sceneImport')}</button>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'scene-bar': SceneBar;
+  }
+}
@@ -4,18 +4,36 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { AnalysisResponse, PlaybackState, Prompt, Style } from './types';
-import { GoogleGenAI, LiveMusicFilteredPrompt, Type } from '@google/genai';
+import type { AnalysisResponse, BeatInfo, BufferStats, CrossfaderState, DeckId, DeckPrompts, ExportOptions, LoopOptions, LoudnessStats, MasterFxParams, PlaybackState, Prompt, SessionFile, Style, TimelineEvent } from './types';
+import { GoogleGenAI, LiveMusicFilteredPrompt, LiveMusicGenerationConfig, Type } from '@google/genai';
 import { PromptDjMidi } from './components/PromptDjMidi';
 import { ToastMessage } from './components/ToastMessage';
 import { LiveMusicHelper } from './utils/LiveMusicHelper';
+import type { MusicEngine } from './utils/MusicEngine';
+import { LyriaMusicEngine } from './utils/LyriaMusicEngine';
+import { MockMusicEngine } from './utils/MockMusicEngine';
 import { AudioAnalyser } from './utils/AudioAnalyser';
+import { BeatTracker } from './utils/BeatTracker';
+import { MidiClockOut } from './utils/MidiClockOut';
 import { t } from './utils/i18n';
+import { downloadBlob } from './utils/download';
+import { EXPORT_EXTENSIONS } from './utils/AudioExport';
+import { SessionReplay, parseSessionFile } from './utils/SessionReplay';
+import { CueOutput } from './utils/CueOutput';
 
 // FIX: Initialized GoogleGenAI with the correct API key environment variable and removed deprecated options.
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 const model = 'lyria-realtime-exp';
 
+/**
+ * Picks the music engine: `?engine=mock` or `MUSIC_ENGINE=mock` in
+ * .env.local runs the offline stand-in instead of Lyria.
+ */
+function createMusicEngine(): MusicEngine {
+  const engineName = new URLSearchParams(location.search).get('engine') ?? process.env.MUSIC_ENGINE;
+  return engineName === 'mock' ? new MockMusicEngine() : new LyriaMusicEngine(ai, model);
+}
+
 let keyToEnglish: Map<string, string>;
 let englishToKey: Map<string, string>;
 
@@ -248,15 +266,41 @@ async function main() {
   const toastMessage = new ToastMessage();
   document.body.appendChild(toastMessage);
 
-  const liveMusicHelper = new LiveMusicHelper(ai, model);
+  const liveMusicHelper = new LiveMusicHelper(createMusicEngine());
   liveMusicHelper.setWeightedPrompts(initialPrompts);
+  liveMusicHelper.setMusicGenerationConfig(pdjMidi.getGenerationConfig());
 
   const audioAnalyser = new AudioAnalyser(liveMusicHelper.audioContext);
   liveMusicHelper.extraDestination = audioAnalyser.node;
 
+  const midiClock = new MidiClockOut(liveMusicHelper.audioContext);
+  const beatTracker = await BeatTracker.create(liveMusicHelper.audioContext).catch((e) => {
+    console.error('Beat tracking unavailable', e);
+    return null;
+  });
+  if (beatTracker) {
+    audioAnalyser.node.connect(beatTracker.input);
+    beatTracker.setTempoHint(pdjMidi.getGenerationConfig().bpm);
+    beatTracker.addEventListener('beat', ((e: Event) => {
+      const customEvent = e as CustomEvent<BeatInfo>;
+      pdjMidi.beat = customEvent.detail;
+      midiClock.follow(customEvent.detail);
+    }));
+    beatTracker.addEventListener('tempo-changed', ((e: Event) => {
+      const customEvent = e as CustomEvent<number | null>;
+      pdjMidi.trackedBpm = customEvent.detail;
+      if (customEvent.detail === null) pdjMidi.beat = null;
+    }));
+  }
+
+  pdjMidi.addEventListener('clock-output-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<MIDIOutput | null>;
+    midiClock.setOutput(customEvent.detail);
+  }));
+
   pdjMidi.addEventListener('prompts-changed', ((e: Event) => {
-    const customEvent = e as CustomEvent<Map<string, Prompt>>;
-    const prompts = customEvent.detail;
+    const customEvent = e as CustomEvent<DeckPrompts>;
+    const { deck, prompts } = customEvent.detail;
     
     // Translate prompt keys to English for the model
     const englishPrompts = new Map<string, Prompt>();
@@ -265,7 +309,28 @@ async function main() {
       englishPrompts.set(id, {...p, text: englishText });
     });
     
-    liveMusicHelper.setWeightedPrompts(englishPrompts);
+    liveMusicHelper.setWeightedPrompts(englishPrompts, deck);
+  }));
+
+  pdjMidi.addEventListener('two-deck-mode-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<boolean>;
+    liveMusicHelper.setTwoDeckMode(customEvent.detail);
+  }));
+
+  pdjMidi.addEventListener('crossfader-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<CrossfaderState>;
+    liveMusicHelper.setCrossfader(customEvent.detail);
+  }));
+
+  pdjMidi.addEventListener('generation-config-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<LiveMusicGenerationConfig>;
+    liveMusicHelper.setMusicGenerationConfig(customEvent.detail);
+    beatTracker?.setTempoHint(customEvent.detail.bpm);
+  }));
+
+  pdjMidi.addEventListener('master-fx-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<MasterFxParams>;
+    liveMusicHelper.setMasterFx(customEvent.detail);
   }));
 
   pdjMidi.addEventListener('play-pause', () => {
@@ -276,48 +341,192 @@ async function main() {
     liveMusicHelper.playPause();
   });
 
+  // The session file being replayed, which the playback state below starts and pauses.
+  let replay: SessionReplay | null = null;
+
   liveMusicHelper.addEventListener('playback-state-changed', ((e: Event) => {
     const customEvent = e as CustomEvent<PlaybackState>;
     const playbackState = customEvent.detail;
     pdjMidi.playbackState = playbackState;
+    replay?.setRunning(playbackState === 'playing');
     playbackState === 'playing' ? audioAnalyser.start() : audioAnalyser.stop();
+    if (playbackState === 'playing') {
+      midiClock.start();
+    } else if (playbackState === 'paused' || playbackState === 'stopped') {
+      midiClock.stop();
+      beatTracker?.reset();
+    }
+  }));
+
+  liveMusicHelper.addEventListener('reconnecting', ((e: Event) => {
+    const customEvent = e as CustomEvent<{ attempt: number }>;
+    pdjMidi.reconnectAttempt = customEvent.detail.attempt;
+  }));
+
+  liveMusicHelper.addEventListener('loudness', ((e: Event) => {
+    const customEvent = e as CustomEvent<LoudnessStats>;
+    pdjMidi.loudness = customEvent.detail;
+  }));
+
+  liveMusicHelper.addEventListener('buffer-stats', ((e: Event) => {
+    const customEvent = e as CustomEvent<BufferStats>;
+    pdjMidi.bufferStats = customEvent.detail;
   }));
 
   liveMusicHelper.addEventListener('recording-available', () => {
     pdjMidi.isDownloadable = true;
   });
 
-  pdjMidi.addEventListener('download-requested', () => {
-    const blob = liveMusicHelper.getRecordedAudioBlob();
-    if (!blob) {
+  pdjMidi.addEventListener('recording-limit-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<number | null>;
+    liveMusicHelper.setRecordingLimit(customEvent.detail);
+  }));
+
+  if (await liveMusicHelper.restoreRecording()) {
+    pdjMidi.isDownloadable = true;
+    toastMessage.show(t('recordingRestored'));
+  }
+
+  pdjMidi.addEventListener('download-requested', (async (e: Event) => {
+    const options = (e as CustomEvent<ExportOptions>).detail;
+    pdjMidi.exportProgress = 0;
+    try {
+      const styleName = keyToEnglish.get(pdjMidi.getStyleName());
+      const blob = await liveMusicHelper.getRecordedAudioBlob(options, styleName, (progress) => pdjMidi.exportProgress = progress);
+      if (!blob) {
+        toastMessage.show(t('noAudioRecorded'));
+        return;
+      }
+      downloadBlob(blob, `prompt-dj-music.${EXPORT_EXTENSIONS[options.format]}`);
+    } catch (error) {
+      console.error(error);
+      toastMessage.show(t('exportFailed'));
+    } finally {
+      pdjMidi.exportProgress = null;
+    }
+  }) as EventListener);
+
+  pdjMidi.addEventListener('session-download-requested', async () => {
+    const session = await liveMusicHelper.getSessionFile();
+    if (!session) {
       toastMessage.show(t('noAudioRecorded'));
       return;
     }
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.style.display = 'none';
-    a.href = url;
-    a.download = 'prompt-dj-music.wav';
-    document.body.appendChild(a);
-    a.click();
-    window.URL.revokeObjectURL(url);
-    a.remove();
+    const blob = new Blob([JSON.stringify(session, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, 'prompt-dj-music.session.json');
   });
 
-  pdjMidi.addEventListener('loop-download-requested', async () => {
+  const stopReplay = () => {
+    replay?.stop();
+    replay = null;
+    pdjMidi.finishReplay();
+  };
+
+  pdjMidi.addEventListener('replay-requested', ((e: Event) => {
+    const customEvent = e as CustomEvent<{ json: string, lengthScale: number }>;
+    let session: SessionFile;
+    try {
+      session = parseSessionFile(customEvent.detail.json);
+    } catch (err) {
+      console.error(err);
+      toastMessage.show(t('sessionFileError'));
+      return;
+    }
+
+    stopReplay();
+    // Two-deck sessions replay on two decks, which can only be set up while stopped.
+    const twoDeck = session.events.some((event) => event.type === 'crossfader' || (event.type === 'prompts' && event.deck));
+    if (twoDeck !== liveMusicHelper.isTwoDeck) {
+      if (pdjMidi.playbackState !== 'stopped' && pdjMidi.playbackState !== 'paused') liveMusicHelper.stop();
+      liveMusicHelper.setTwoDeckMode(twoDeck);
+      // The grid follows the decks that exist, in case the switch was refused.
+      pdjMidi.setTwoDeckMode(liveMusicHelper.isTwoDeck);
+    }
+    replay = new SessionReplay(session, customEvent.detail.lengthScale);
+    replay.addEventListener('replay-event', ((e: Event) => {
+      const event = (e as CustomEvent<TimelineEvent>).detail;
+      if (event.type === 'prompts') {
+        // Session files hold the English text sent to the model.
+        pdjMidi.applyReplayPrompts(event.prompts.map((p) => ({
+          ...p,
+          text: englishToKey.get(p.text) || p.text,
+        })), event.deck);
+      } else if (event.type === 'config') {
+        pdjMidi.applyReplayConfig(event.config);
+      } else if (event.type === 'fx') {
+        pdjMidi.applyReplayMasterFx(event.fx);
+      } else {
+        pdjMidi.applyReplayCrossfader(event.crossfader);
+      }
+    }));
+    replay.addEventListener('replay-progress', ((e: Event) => {
+      pdjMidi.replayPosition = (e as CustomEvent<number>).detail;
+    }));
+    replay.addEventListener('replay-end', stopReplay);
+
+    pdjMidi.replayLength = replay.length;
+    pdjMidi.startReplay();
+    replay.setRunning(pdjMidi.playbackState === 'playing');
+    replay.start();
+    if (pdjMidi.playbackState !== 'playing') {
+      pdjMidi.isDownloadable = false;
+      liveMusicHelper.play();
+    }
+  }));
+
+  pdjMidi.addEventListener('replay-stop-requested', stopReplay);
+
+  const refreshCueDevices = async () => {
+    try {
+      pdjMidi.cueDevices = await CueOutput.listDevices();
+    } catch (err) {
+      console.error(err);
+      toastMessage.show(t('cueDevicesError'));
+    }
+  };
+  if (CueOutput.isSupported) {
+    refreshCueDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshCueDevices);
+  }
+
+  pdjMidi.addEventListener('cue-device-changed', (async (e: Event) => {
+    const deviceId = (e as CustomEvent<string | null>).detail;
+    try {
+      await liveMusicHelper.setCueDevice(deviceId);
+    } catch (err) {
+      console.error(err);
+      toastMessage.show(t('cueDeviceError'));
+    }
+  }) as EventListener);
+
+  pdjMidi.addEventListener('cue-changed', ((e: Event) => {
+    const { deck, enabled } = (e as CustomEvent<{ deck: DeckId; enabled: boolean }>).detail;
+    liveMusicHelper.setCue(deck, enabled);
+  }));
+
+  pdjMidi.addEventListener('loop-cue-requested', (async (e: Event) => {
+    const { loop, deck } = (e as CustomEvent<{ loop: LoopOptions; deck: DeckId }>).detail;
+    let playing = false;
+    try {
+      playing = await liveMusicHelper.cueLoop(loop, deck);
+      if (!playing) toastMessage.show(t('loopCueFailed'));
+    } catch (err) {
+      console.error(err);
+      toastMessage.show(t('loopCueFailed'));
+    } finally {
+      pdjMidi.finishLoopCue(playing);
+    }
+  }) as EventListener);
+
+  pdjMidi.addEventListener('loop-cue-stop-requested', () => liveMusicHelper.stopCueLoop());
+
+  pdjMidi.addEventListener('loop-download-requested', (async (e: Event) => {
+    const { loop, options, deck } = (e as CustomEvent<{ loop: LoopOptions; options: ExportOptions; deck: DeckId }>).detail;
     pdjMidi.startLoopDownload();
     try {
-        const blob = await liveMusicHelper.downloadLoop(20); // 20-second loop
+        const blob = await liveMusicHelper.downloadLoop(loop, options, deck);
         if (blob) {
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.style.display = 'none';
-            a.href = url;
-            a.download = 'prompt-dj-loop.wav';
-            document.body.appendChild(a);
-            a.click();
-            window.URL.revokeObjectURL(url);
-            a.remove();
+            downloadBlob(blob, `prompt-dj-loop.${EXPORT_EXTENSIONS[options.format]}`);
         } else {
             toastMessage.show(t('loopDownloadFailed'));
         }
@@ -327,7 +536,7 @@ async function main() {
     } finally {
         pdjMidi.finishLoopDownload();
     }
-  });
+  }) as EventListener);
 
   liveMusicHelper.addEventListener('filtered-prompt', ((e: Event) => {
     const customEvent = e as CustomEvent<LiveMusicFilteredPrompt>;
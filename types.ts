@@ -2,6 +2,8 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import type { LiveMusicGenerationConfig } from '@google/genai';
+
 export interface Prompt {
   readonly promptId: string;
   text: string;
@@ -10,19 +12,252 @@ export interface Prompt {
   color: string;
 }
 
+/** How a pad drives a prompt: on while held, or switched on and off by each hit. */
+export type PadMode = 'momentary' | 'toggle';
+
 export interface ControlChange {
   channel: number;
   cc: number;
   value: number;
 }
 
-export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
+export interface NoteMessage {
+  channel: number;
+  note: number;
+  velocity: number;
+}
+
+/** Pressure on a held key: one note's, or the whole channel's when `note` is null. */
+export interface Aftertouch {
+  channel: number;
+  note: number | null;
+  pressure: number;
+}
+
+/** The kinds of message a control can be mapped to. */
+export type MidiMessageType = 'cc' | 'note' | 'nrpn';
+
+/**
+ * How a CC moves its target: to the position it sends, by the steps of a
+ * relative encoder in one of the three common encodings, or to a fine
+ * position sent as an MSB on the CC and an LSB on the CC 32 above it.
+ */
+export type MidiValueMode =
+  | 'absolute'
+  | 'relative-twos-complement'
+  | 'relative-binary-offset'
+  | 'relative-sign-magnitude'
+  | '14-bit';
+
+/** A hardware control: a CC or note, on one device and channel, or on any when null. */
+export interface MidiBinding {
+  /** The input's name, which stays the same across reconnects, unlike its id. */
+  device: string | null;
+  channel: number | null;
+  type: MidiMessageType;
+  number: number;
+}
+
+/** What a binding drives: a prompt's id, or a global control's key such as 'fx:eqLow'. */
+export interface MidiMapping {
+  target: string;
+  binding: MidiBinding;
+  /** How a note drives its target. */
+  padMode?: PadMode;
+  /** How a CC drives its target; absolute when unset. */
+  valueMode?: MidiValueMode;
+  /** Soft takeover: the control is ignored until it passes its target's value. */
+  pickup?: boolean;
+}
+
+/** The parts of a mapping that say how it drives its target. */
+export type MidiMappingOptions = Pick<MidiMapping, 'padMode' | 'valueMode' | 'pickup'>;
+
+/**
+ * A mapped message on its way to its target. Values are 0 to 127, with
+ * fractions from 14-bit CCs and NRPNs, which arrive as 'cc'; a note off has
+ * 0. Relative encoders arrive already applied to the target's value.
+ */
+export interface MidiControlMessage {
+  target: string;
+  kind: 'cc' | 'note-on' | 'note-off' | 'aftertouch';
+  value: number;
+  mapping: MidiMapping;
+}
+
+/** The two decks of two-deck mode; a single session plays as deck A. */
+export type DeckId = 'A' | 'B';
+
+/** What can be sent to the cue output: a deck, or a preview of the loop. */
+export type CueSource = DeckId | 'loop';
+
+/** An audio input or output as the browser lists it. */
+export interface AudioDevice {
+  deviceId: string;
+  label: string;
+}
+
+/** The prompts a deck should play. */
+export interface DeckPrompts {
+  deck: DeckId;
+  prompts: Map<string, Prompt>;
+}
+
+export type CrossfaderCurve = 'linear' | 'equal-power' | 'cut';
+
+/** `position` runs from 0, all deck A, to 1, all deck B. */
+export interface CrossfaderState {
+  position: number;
+  curve: CrossfaderCurve;
+}
+
+export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused' | 'reconnecting';
+
+export interface BufferStats {
+  underruns: number;
+  /** The current jitter buffer target, in seconds. */
+  bufferTime: number;
+  /** How much audio is queued ahead of the playhead, in seconds. */
+  bufferedSeconds: number;
+}
+
+/** A beat of the tracked tempo, as it reaches the speakers. */
+export interface BeatInfo {
+  /** When the beat is heard, on the audio context's clock. */
+  time: number;
+  bpm: number;
+  /** Counted from the first bar after the tempo locked, from 0. */
+  bar: number;
+  /** Position in the bar, 0 to 3; 0 is the downbeat. */
+  beat: number;
+}
+
+/** ITU-R BS.1770 loudness, in LUFS, and true peak, in dBTP. */
+export interface LoudnessStats {
+  momentary: number;
+  shortTerm: number;
+  /** The loudest short-term value so far. */
+  maxShortTerm: number;
+  integrated: number;
+  truePeak: number;
+}
+
+/**
+ * Settings of the master effects chain. Gains and thresholds are in dB.
+ * `filter` sweeps a low-pass from 0 down to -1 and a high-pass from 0 up to 1.
+ */
+export interface MasterFxParams {
+  enabled: boolean;
+  eqLow: number;
+  eqMid: number;
+  eqHigh: number;
+  filter: number;
+  resonance: number;
+  /** Delay time, in seconds. */
+  delayTime: number;
+  delayFeedback: number;
+  delayMix: number;
+  reverbMix: number;
+  compThreshold: number;
+  compRatio: number;
+  limiterCeiling: number;
+}
+
+export type TransitionCurve = 'linear' | 'ease' | 'equal-power';
+
+export interface TransitionSettings {
+  duration: number;
+  unit: 'seconds' | 'bars';
+  curve: TransitionCurve;
+}
 
 export interface Style {
   name: string;
   prompts: { color: string; text: string; }[];
 }
 
+export interface Scene {
+  styleName: string;
+  prompts: Prompt[];
+  savedAt: number;
+}
+
 export interface AnalysisResponse {
   prompts: { text: string; weight: number }[];
-}
\ No newline at end of file
+}
+
+export interface WeightedPromptSnapshot {
+  text: string;
+  weight: number;
+}
+
+export type ExportFormat = 'wav' | 'flac' | 'opus' | 'mp3';
+
+/** How an export is encoded. `bitDepth` 32 means 32-bit float WAV. */
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Bits per sample for WAV and FLAC. */
+  bitDepth: 16 | 24 | 32;
+  /** Bitrate for Opus and MP3, in kbps. */
+  bitrate: number;
+  sampleRate: number;
+  numChannels: number;
+  /** Integrated loudness to normalize to, in LUFS, or null to keep the level. */
+  normalizeLufs: number | null;
+  /** Render the master effects into the file, as they were heard. */
+  applyMasterFx: boolean;
+}
+
+/** A named position in an exported file, `time` seconds from its start. */
+export interface ExportMarker {
+  time: number;
+  label: string;
+}
+
+/** Descriptive data embedded in exports whose format has room for it. */
+export interface ExportMetadata {
+  title: string;
+  styleName?: string;
+  /** The prompts playing, as text and weight. */
+  prompts: WeightedPromptSnapshot[];
+  /** Where the set of active prompts changed. */
+  markers: ExportMarker[];
+  /** Tempo, when a single BPM held for the whole export. */
+  bpm?: number;
+  /** A seamless loop rather than a one-off take. */
+  loop?: boolean;
+}
+
+/** Options for a loop export; the skip is rounded up to a whole bar. */
+export interface LoopOptions {
+  bars: number;
+  skipSeconds: number;
+}
+
+/**
+ * One change sent to the model or made to the mix, `time` seconds into the
+ * recording. In two-deck mode prompt changes name the deck they went to.
+ */
+export type TimelineEvent =
+  | { time: number; type: 'prompts'; prompts: WeightedPromptSnapshot[]; deck?: DeckId }
+  | { time: number; type: 'config'; config: LiveMusicGenerationConfig }
+  | { time: number; type: 'fx'; fx: MasterFxParams }
+  | { time: number; type: 'crossfader'; crossfader: CrossfaderState };
+
+/**
+ * The session file downloaded next to a recording. `events` holds every
+ * prompt, config, master effects and crossfader change in order;
+ * `seconds[i]` lists the prompts that played for most of second `i` of the
+ * WAV, on both decks in two-deck mode.
+ */
+export interface SessionFile {
+  format: 'promptdj-session';
+  version: 1;
+  createdAt: string;
+  sampleRate: number;
+  numChannels: number;
+  /** Length of the recording, in seconds. */
+  duration: number;
+  events: TimelineEvent[];
+  seconds: WeightedPromptSnapshot[][];
+}
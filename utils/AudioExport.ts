@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExportFormat, ExportMetadata, ExportOptions } from '../types';
+import type { ExportRequest, ExportResponse } from './exportWorker';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['wav', 'flac', 'opus', 'mp3'];
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  wav: 'wav',
+  flac: 'flac',
+  opus: 'opus',
+  mp3: 'mp3',
+};
+
+/** Bit depths each lossless format can store; lossy formats use a bitrate. */
+export const EXPORT_BIT_DEPTHS: Partial<Record<ExportFormat, ExportOptions['bitDepth'][]>> = {
+  wav: [16, 24, 32],
+  flac: [16, 24],
+};
+
+/** Sample rates offered per format. Ogg Opus always plays back at 48 kHz. */
+export const EXPORT_SAMPLE_RATES: Record<ExportFormat, number[]> = {
+  wav: [44100, 48000, 96000],
+  flac: [44100, 48000, 96000],
+  opus: [48000],
+  mp3: [32000, 44100, 48000],
+};
+
+export const EXPORT_BITRATES = [96, 128, 192, 256, 320];
+
+/** Loudness targets in LUFS, with the translation key of what they suit. */
+export const NORMALIZE_TARGETS: { lufs: number; use: string }[] = [
+  { lufs: -14, use: 'normalizeStreaming' },
+  { lufs: -16, use: 'normalizePodcast' },
+  { lufs: -23, use: 'normalizeBroadcast' },
+];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'wav',
+  bitDepth: 16,
+  bitrate: 192,
+  sampleRate: 48000,
+  numChannels: 2,
+  normalizeLufs: null,
+  applyMasterFx: true,
+};
+
+/** Opus relies on the browser's WebCodecs encoder; the rest are bundled. */
+export async function isExportFormatSupported(format: ExportFormat): Promise<boolean> {
+  if (format !== 'opus') return true;
+  if (!('AudioEncoder' in window)) return false;
+  const { supported } = await AudioEncoder.isConfigSupported({
+    codec: 'opus',
+    sampleRate: 48000,
+    numberOfChannels: 2,
+  });
+  return !!supported;
+}
+
+/**
+ * Encodes interleaved 16-bit PCM in a worker, so long recordings don't block
+ * the page. `onProgress` receives the fraction done, from 0 to 1.
+ */
+export function encodeAudio(
+  pcm: Blob,
+  sampleRate: number,
+  numChannels: number,
+  options: ExportOptions,
+  metadata?: ExportMetadata,
+  onProgress?: (progress: number) => void,
+): Promise<Blob> {
+  const worker = new Worker(new URL('./exportWorker.ts', import.meta.url), { type: 'module' });
+  return new Promise<Blob>((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<ExportResponse>) => {
+      const response = e.data;
+      if (response.type === 'progress') {
+        onProgress?.(response.progress);
+        return;
+      }
+      worker.terminate();
+      if (response.type === 'done') {
+        resolve(response.blob);
+      } else {
+        reject(new Error(response.message));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message));
+    };
+    worker.postMessage({ pcm, sampleRate, numChannels, options, metadata } satisfies ExportRequest);
+  });
+}
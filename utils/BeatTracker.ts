@@ -0,0 +1,338 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { BeatInfo } from '../types';
+
+/** Frames per onset envelope value, about 10.7 ms at 48 kHz. */
+const HOP_FRAMES = 512;
+/** Envelope values per message from the worklet. */
+const HOPS_PER_MESSAGE = 8;
+/** Kick-range band whose accents mark the downbeat. */
+const LOW_BAND_HZ = 150;
+
+/** Seconds of onset envelope kept for the estimates. */
+const WINDOW_SECONDS = 8;
+/** Seconds between tempo and phase estimates. */
+const ANALYSIS_INTERVAL_SECONDS = 0.5;
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+/**
+ * Tempos near 120 BPM are favoured, or near the configured BPM when there
+ * is one, to settle half- and double-time ambiguity. Widths in octaves.
+ */
+const DEFAULT_BPM = 120;
+const PRIOR_WIDTH = 0.6;
+const HINT_PRIOR_WIDTH = 0.1;
+/** Below this normalized autocorrelation peak there is no steady pulse. */
+const MIN_CONFIDENCE = 0.1;
+/** A new estimate further off than this has to be repeated to be taken. */
+const TEMPO_TOLERANCE = 0.04;
+/** Weight of each agreeing estimate in the smoothed tempo. */
+const TEMPO_SMOOTHING = 0.2;
+const BEATS_PER_BAR = 4;
+/** Bars looked back on when placing the downbeat. */
+const DOWNBEAT_BARS = 4;
+/** How much stronger another downbeat has to be before the bar is re-counted. */
+const DOWNBEAT_HYSTERESIS = 1.2;
+
+/**
+ * Rises in log energy per hop, for the whole signal and for the low band,
+ * posted with the context time of the first hop. Kept as source text so the
+ * module can be loaded from a blob URL without a separate build step.
+ */
+const PROCESSOR_SOURCE = `
+class OnsetProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.lowCoeff = Math.exp(-2 * Math.PI * ${LOW_BAND_HZ} / sampleRate);
+    this.low = 0;
+    this.energy = 0;
+    this.lowEnergy = 0;
+    this.fill = 0;
+    this.level = 0;
+    this.lowLevel = 0;
+    this.startTime = 0;
+    this.flux = [];
+    this.lowFlux = [];
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    const frames = input.length > 0 ? input[0].length : 128;
+    for (let i = 0; i < frames; i++) {
+      let x = 0;
+      for (const channel of input) x += channel[i];
+      if (input.length > 1) x /= input.length;
+      this.low = x + this.lowCoeff * (this.low - x);
+      this.energy += x * x;
+      this.lowEnergy += this.low * this.low;
+      if (++this.fill === ${HOP_FRAMES}) this.endHop(currentTime + (i + 1) / sampleRate);
+    }
+    return true;
+  }
+
+  endHop(time) {
+    const level = Math.log(1e-4 + this.energy / ${HOP_FRAMES});
+    const lowLevel = Math.log(1e-4 + this.lowEnergy / ${HOP_FRAMES});
+    if (this.flux.length === 0) this.startTime = time;
+    this.flux.push(Math.max(0, level - this.level));
+    this.lowFlux.push(Math.max(0, lowLevel - this.lowLevel));
+    this.level = level;
+    this.lowLevel = lowLevel;
+    this.energy = 0;
+    this.lowEnergy = 0;
+    this.fill = 0;
+    if (this.flux.length === ${HOPS_PER_MESSAGE}) {
+      this.port.postMessage({ time: this.startTime, flux: this.flux, lowFlux: this.lowFlux });
+      this.flux = [];
+      this.lowFlux = [];
+    }
+  }
+}
+registerProcessor('onset-detector', OnsetProcessor);
+`;
+
+interface OnsetMessage {
+  time: number;
+  flux: number[];
+  lowFlux: number[];
+}
+
+/** When a time on the context's clock reaches the speakers, in `performance.now()` time. */
+export function contextTimeToPerformance(context: AudioContext, time: number): number {
+  const { contextTime = context.currentTime, performanceTime = performance.now() } = context.getOutputTimestamp();
+  return performanceTime + (time - contextTime) * 1000;
+}
+
+/**
+ * Follows the tempo and beat of whatever reaches `input`. Onsets are found
+ * in a worklet; every half second the tempo is taken from the onset
+ * envelope's autocorrelation and the beat phase from a comb over it, with
+ * the downbeat where the low band hits hardest. Beats are dispatched as
+ * 'beat' when they are heard, downbeats also as 'bar', and the tempo as
+ * 'tempo-changed' when it locks, moves or is lost (null).
+ */
+export class BeatTracker extends EventTarget {
+  readonly input: AudioWorkletNode;
+
+  private readonly hopSeconds: number;
+  private readonly windowHops: number;
+  private flux: number[] = [];
+  private lowFlux: number[] = [];
+  /** Context time at the end of the newest hop. */
+  private lastHopTime = 0;
+  private hopsSinceAnalysis = 0;
+
+  private tempoHint: number | null = null;
+  private bpm: number | null = null;
+  /** A tempo jump waiting for a second estimate to confirm it. */
+  private candidate: number | null = null;
+  private nextBeat: Omit<BeatInfo, 'bpm'> | null = null;
+  private lastBeatTime = -Infinity;
+  private beatTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor(private readonly context: AudioContext) {
+    super();
+    this.hopSeconds = HOP_FRAMES / context.sampleRate;
+    this.windowHops = Math.round(WINDOW_SECONDS / this.hopSeconds);
+    // Without outputs the node is pulled even though nothing plays it.
+    this.input = new AudioWorkletNode(context, 'onset-detector', { numberOfInputs: 1, numberOfOutputs: 0 });
+    this.input.port.onmessage = (e: MessageEvent<OnsetMessage>) => this.handleOnsets(e.data);
+  }
+
+  static async create(context: AudioContext): Promise<BeatTracker> {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'text/javascript' }));
+    try {
+      await context.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    return new BeatTracker(context);
+  }
+
+  /** The locked tempo, or null while there is none. */
+  get tempo(): number | null {
+    return this.bpm;
+  }
+
+  /** The BPM the model was asked for, if any; estimates are pulled towards it. */
+  setTempoHint(bpm: number | undefined) {
+    this.tempoHint = bpm ?? null;
+  }
+
+  /** Forgets the tempo and the onsets heard so far, e.g. when playback stops. */
+  reset() {
+    this.flux = [];
+    this.lowFlux = [];
+    this.hopsSinceAnalysis = 0;
+    this.lose();
+  }
+
+  private handleOnsets({ time, flux, lowFlux }: OnsetMessage) {
+    this.flux.push(...flux);
+    this.lowFlux.push(...lowFlux);
+    const excess = this.flux.length - this.windowHops;
+    if (excess > 0) {
+      this.flux.splice(0, excess);
+      this.lowFlux.splice(0, excess);
+    }
+    this.lastHopTime = time + (flux.length - 1) * this.hopSeconds;
+    this.hopsSinceAnalysis += flux.length;
+    if (this.hopsSinceAnalysis * this.hopSeconds >= ANALYSIS_INTERVAL_SECONDS) {
+      this.hopsSinceAnalysis = 0;
+      this.analyse();
+    }
+  }
+
+  private analyse() {
+    const estimate = this.estimateTempo();
+    if (estimate === null) {
+      this.lose();
+      return;
+    }
+    const previous = this.bpm;
+    if (previous !== null && Math.abs(estimate / previous - 1) <= TEMPO_TOLERANCE) {
+      this.bpm = previous + TEMPO_SMOOTHING * (estimate - previous);
+      this.candidate = null;
+    } else if (this.candidate !== null && Math.abs(estimate / this.candidate - 1) <= TEMPO_TOLERANCE) {
+      this.bpm = estimate;
+      this.candidate = null;
+    } else {
+      this.candidate = estimate;
+      if (previous === null) return;
+    }
+    if (previous === null || Math.round(previous * 10) !== Math.round(this.bpm! * 10)) {
+      this.dispatchEvent(new CustomEvent<number | null>('tempo-changed', { detail: this.bpm }));
+    }
+    this.alignBeats(this.bpm!);
+  }
+
+  /** The strongest periodicity of the onset envelope in BPM, or null if there is none. */
+  private estimateTempo(): number | null {
+    const fps = 1 / this.hopSeconds;
+    const minLag = Math.floor(60 * fps / MAX_BPM);
+    const maxLag = Math.ceil(60 * fps / MIN_BPM);
+    const n = this.flux.length;
+    if (n < maxLag * BEATS_PER_BAR) return null;
+
+    const mean = this.flux.reduce((a, b) => a + b, 0) / n;
+    const env = this.flux.map((v) => v - mean);
+    const acf = (lag: number) => {
+      let sum = 0;
+      for (let i = lag; i < n; i++) sum += env[i] * env[i - lag];
+      return sum / (n - lag);
+    };
+    const energy = acf(0);
+    if (energy === 0) return null;
+
+    const center = this.tempoHint ?? DEFAULT_BPM;
+    const width = this.tempoHint ? HINT_PRIOR_WIDTH : PRIOR_WIDTH;
+    const values = new Map<number, number>();
+    let bestLag = minLag;
+    let bestScore = -Infinity;
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++) values.set(lag, acf(lag));
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const octaves = Math.log2(60 * fps / lag / center);
+      const score = values.get(lag)! * Math.exp(-0.5 * (octaves / width) ** 2);
+      if (score > bestScore) {
+        bestScore = score;
+        bestLag = lag;
+      }
+    }
+    const peak = values.get(bestLag)!;
+    if (peak / energy < MIN_CONFIDENCE) return null;
+
+    // Parabolic interpolation between the neighbouring lags.
+    const before = values.get(bestLag - 1)!;
+    const after = values.get(bestLag + 1)!;
+    const curvature = before - 2 * peak + after;
+    const offset = curvature < 0 ? 0.5 * (before - after) / curvature : 0;
+    return 60 * fps / (bestLag + offset);
+  }
+
+  /**
+   * Lays a beat grid over the recent onsets and moves the next beat onto it.
+   * The bar keeps its count unless another downbeat is clearly stronger.
+   */
+  private alignBeats(bpm: number) {
+    const period = 60 / bpm / this.hopSeconds;
+    const n = this.flux.length;
+    const beatsBack = Math.floor((n - 1) / period);
+    const hopAt = (offset: number, k: number) => n - 1 - offset - Math.round(k * period);
+
+    let phase = 0;
+    let phaseScore = -Infinity;
+    for (let offset = 0; offset < period; offset++) {
+      let score = 0;
+      for (let k = 0; k <= beatsBack && hopAt(offset, k) >= 0; k++) score += this.flux[hopAt(offset, k)];
+      if (score > phaseScore) {
+        phaseScore = score;
+        phase = offset;
+      }
+    }
+
+    // Group g holds the beats g, g + 4, ... before the newest; as downbeats
+    // they would put the newest beat at position g in the bar.
+    const accents = new Array<number>(BEATS_PER_BAR).fill(0);
+    for (let k = 0; k < DOWNBEAT_BARS * BEATS_PER_BAR && hopAt(phase, k) >= 0; k++) {
+      accents[k % BEATS_PER_BAR] += this.lowFlux[hopAt(phase, k)];
+    }
+    const strongest = accents.indexOf(Math.max(...accents));
+
+    const periodSeconds = period * this.hopSeconds;
+    const newestBeat = this.lastHopTime - phase * this.hopSeconds;
+    const position = (i: number) => (i % BEATS_PER_BAR + BEATS_PER_BAR) % BEATS_PER_BAR;
+    // The next beat is the first on the grid that is neither heard yet nor
+    // the one just dispatched. The newest onsets are still on their way to
+    // the speakers, so it can lie before the newest beat.
+    const heard = this.context.getOutputTimestamp().contextTime ?? this.context.currentTime;
+    const earliest = Math.max(heard, this.lastBeatTime + periodSeconds / 2);
+    let ahead = Math.ceil((earliest - newestBeat) / periodSeconds);
+
+    if (!this.nextBeat || this.lastBeatTime === -Infinity) {
+      // Counting starts on the first downbeat.
+      while (position(strongest + ahead) !== 0) ahead++;
+      this.nextBeat = { time: newestBeat + ahead * periodSeconds, bar: 0, beat: 0 };
+    } else {
+      const counted = position(this.nextBeat.beat - ahead);
+      const group = accents[strongest] > accents[counted] * DOWNBEAT_HYSTERESIS ? strongest : counted;
+      this.nextBeat = { ...this.nextBeat, time: newestBeat + ahead * periodSeconds, beat: position(group + ahead) };
+    }
+    this.scheduleBeat();
+  }
+
+  private scheduleBeat() {
+    if (this.beatTimer) clearTimeout(this.beatTimer);
+    if (!this.nextBeat) return;
+    const delay = contextTimeToPerformance(this.context, this.nextBeat.time) - performance.now();
+    this.beatTimer = setTimeout(() => this.fireBeat(), Math.max(0, delay));
+  }
+
+  private fireBeat() {
+    if (!this.nextBeat || this.bpm === null) return;
+    const beat: BeatInfo = { ...this.nextBeat, bpm: this.bpm };
+    this.dispatchEvent(new CustomEvent<BeatInfo>('beat', { detail: beat }));
+    if (beat.beat === 0) this.dispatchEvent(new CustomEvent<BeatInfo>('bar', { detail: beat }));
+
+    this.lastBeatTime = beat.time;
+    const wraps = beat.beat === BEATS_PER_BAR - 1;
+    this.nextBeat = {
+      time: beat.time + 60 / this.bpm,
+      bar: wraps ? beat.bar + 1 : beat.bar,
+      beat: wraps ? 0 : beat.beat + 1,
+    };
+    this.scheduleBeat();
+  }
+
+  private lose() {
+    if (this.beatTimer) clearTimeout(this.beatTimer);
+    this.beatTimer = null;
+    this.nextBeat = null;
+    this.candidate = null;
+    this.lastBeatTime = -Infinity;
+    if (this.bpm === null) return;
+    this.bpm = null;
+    this.dispatchEvent(new CustomEvent<number | null>('tempo-changed', { detail: null }));
+  }
+}
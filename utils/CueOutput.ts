@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AudioDevice } from '../types';
+
+/** `AudioContext.setSinkId` is not in TypeScript's DOM types yet. */
+interface SinkAudioContext extends AudioContext {
+  setSinkId(sinkId: string): Promise<void>;
+}
+
+/**
+ * A headphone bus on a second output device. Whatever is connected to
+ * `input` in the main context is streamed into a second context, which
+ * plays on the chosen device while the main output carries on.
+ */
+export class CueOutput {
+  readonly input: GainNode;
+
+  private readonly stream: MediaStreamAudioDestinationNode;
+  private context: SinkAudioContext | null = null;
+
+  /** Whether the browser can send a context to a chosen device. */
+  static get isSupported() {
+    return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+  }
+
+  /** The audio outputs; labels stay empty until the page has media permission. */
+  static async listDevices(): Promise<AudioDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter((d) => d.kind === 'audiooutput')
+      .map(({ deviceId, label }) => ({ deviceId, label }));
+  }
+
+  constructor(mainContext: AudioContext) {
+    this.input = mainContext.createGain();
+    this.stream = mainContext.createMediaStreamDestination();
+    this.input.connect(this.stream);
+  }
+
+  /**
+   * Plays the cue on `deviceId`, or silences it when null. The second
+   * context is created on first use, which has to follow a user gesture.
+   */
+  async setDevice(deviceId: string | null) {
+    if (deviceId === null) {
+      await this.context?.suspend();
+      return;
+    }
+    if (!this.context) {
+      this.context = new AudioContext({ latencyHint: 'interactive' }) as SinkAudioContext;
+      this.context.createMediaStreamSource(this.stream.stream).connect(this.context.destination);
+    }
+    await this.context.setSinkId(deviceId);
+    await this.context.resume();
+  }
+}
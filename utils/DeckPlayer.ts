@@ -0,0 +1,224 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { PlaybackRequest, PlaybackResponse } from './playbackWorker';
+
+/** Seconds the ring buffer holds; audio beyond it is dropped, oldest first. */
+const RING_SECONDS = 12;
+/** Fade where playback starts, stops, or is about to run dry. */
+const FADE_SECONDS = 0.02;
+/** Frames between reports of how much has been played. */
+const REPORT_FRAMES = 2048;
+
+/**
+ * Plays planar chunks back to back from a ring buffer. It waits until the
+ * target is buffered, fades in, and fades out before the buffer runs dry or
+ * when flushed. Kept as source text so the module can be loaded from a blob
+ * URL without a separate build step.
+ */
+const PROCESSOR_SOURCE = `
+class DeckPlayerProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { numChannels } = options.processorOptions;
+    this.capacity = Math.round(${RING_SECONDS} * sampleRate);
+    this.fadeFrames = Math.round(${FADE_SECONDS} * sampleRate);
+    this.ring = Array.from({ length: numChannels }, () => new Float32Array(this.capacity));
+    this.read = 0;
+    this.available = 0;
+    this.target = 0;
+    this.playing = false;
+    this.flushing = false;
+    this.gain = 0;
+    this.consumed = 0;
+    this.sinceReport = 0;
+    this.port.onmessage = (e) => this.handle(e.data);
+  }
+
+  handle(message) {
+    if (message.type === 'chunk') {
+      this.write(message.channels);
+    } else if (message.type === 'target') {
+      this.target = message.frames;
+    } else if (message.type === 'flush') {
+      if (this.playing) this.flushing = true; else this.clear();
+    }
+  }
+
+  write(channels) {
+    const frames = channels[0].length;
+    const overflow = this.available + frames - this.capacity;
+    if (overflow > 0) this.skip(overflow);
+    let write = (this.read + this.available) % this.capacity;
+    for (let i = 0; i < frames; i++) {
+      for (let ch = 0; ch < this.ring.length; ch++) {
+        this.ring[ch][write] = (channels[ch] ?? channels[0])[i];
+      }
+      write = write + 1 === this.capacity ? 0 : write + 1;
+    }
+    this.available += frames;
+  }
+
+  skip(frames) {
+    const skipped = Math.min(frames, this.available);
+    this.read = (this.read + skipped) % this.capacity;
+    this.available -= skipped;
+    this.consumed += skipped;
+  }
+
+  clear() {
+    this.skip(this.available);
+    this.playing = false;
+    this.flushing = false;
+    this.gain = 0;
+    this.report();
+  }
+
+  report() {
+    this.sinceReport = 0;
+    this.port.postMessage({ type: 'consumed', frames: this.consumed });
+  }
+
+  process(inputs, outputs) {
+    const output = outputs[0];
+    const frames = output[0].length;
+    if (!this.playing) {
+      if (this.available === 0 || this.available < this.target) return true;
+      this.playing = true;
+      this.port.postMessage({ type: 'started' });
+    }
+    const step = 1 / this.fadeFrames;
+    for (let i = 0; i < frames; i++) {
+      if (this.available === 0) {
+        this.playing = false;
+        this.gain = 0;
+        this.port.postMessage({ type: 'underrun' });
+        break;
+      }
+      const target = this.flushing || this.available <= this.fadeFrames ? 0 : 1;
+      this.gain = target > this.gain ? Math.min(target, this.gain + step) : Math.max(target, this.gain - step);
+      for (let ch = 0; ch < output.length; ch++) {
+        output[ch][i] = this.ring[Math.min(ch, this.ring.length - 1)][this.read] * this.gain;
+      }
+      this.read = this.read + 1 === this.capacity ? 0 : this.read + 1;
+      this.available--;
+      this.consumed++;
+      if (this.flushing && this.gain === 0) {
+        this.clear();
+        break;
+      }
+    }
+    this.sinceReport += frames;
+    if (this.sinceReport >= ${REPORT_FRAMES}) this.report();
+    return true;
+  }
+}
+registerProcessor('deck-player', DeckPlayerProcessor);
+`;
+
+/** Each context loads the processor once, however many decks it plays. */
+const loadedModules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+async function loadProcessor(context: BaseAudioContext) {
+  const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'text/javascript' }));
+  try {
+    await context.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** A decoded chunk: the raw PCM and the planar floats it became. */
+export interface DeckAudio {
+  bytes: Uint8Array;
+  channels: Float32Array[];
+}
+
+/**
+ * A deck's playback: chunks are decoded in a worker, dispatched as 'audio'
+ * for recording and metering, and queued in an AudioWorklet ring buffer
+ * that plays them gaplessly into `output`. Dispatches 'started' when
+ * playback begins after buffering and 'underrun' when the buffer runs dry.
+ */
+export class DeckPlayer extends EventTarget {
+  readonly output: AudioWorkletNode;
+
+  private readonly worker: Worker;
+  /** Bumped by flush(), so chunks still in the worker are dropped. */
+  private generation = 0;
+  private queuedFrames = 0;
+  private consumedFrames = 0;
+  private playing = false;
+
+  private constructor(private readonly context: BaseAudioContext, private readonly numChannels: number) {
+    super();
+    this.output = new AudioWorkletNode(context, 'deck-player', {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [numChannels],
+      processorOptions: { numChannels },
+    });
+    this.output.port.onmessage = (e: MessageEvent<{ type: string; frames?: number }>) => {
+      if (e.data.type === 'consumed') {
+        this.consumedFrames = e.data.frames!;
+        return;
+      }
+      this.playing = e.data.type === 'started';
+      this.dispatchEvent(new CustomEvent(e.data.type));
+    };
+    this.worker = new Worker(new URL('./playbackWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (e: MessageEvent<PlaybackResponse>) => this.handleDecoded(e.data);
+  }
+
+  static async create(context: BaseAudioContext, numChannels: number): Promise<DeckPlayer> {
+    let loaded = loadedModules.get(context);
+    if (!loaded) {
+      loaded = loadProcessor(context);
+      loadedModules.set(context, loaded);
+    }
+    await loaded;
+    return new DeckPlayer(context, numChannels);
+  }
+
+  /** Seconds queued and not yet played, as of the worklet's last report. */
+  get bufferedSeconds() {
+    return Math.max(0, this.queuedFrames - this.consumedFrames) / this.context.sampleRate;
+  }
+
+  /** Whether audio is coming out, rather than buffering or flushed. */
+  get isPlaying() {
+    return this.playing;
+  }
+
+  /** Queues a base64 chunk of interleaved 16-bit PCM. */
+  push(data: string) {
+    this.worker.postMessage({ data, numChannels: this.numChannels, generation: this.generation } satisfies PlaybackRequest);
+  }
+
+  /** How much has to be buffered before playback starts or resumes. */
+  setTarget(seconds: number) {
+    this.output.port.postMessage({ type: 'target', frames: Math.round(seconds * this.context.sampleRate) });
+  }
+
+  /** Fades out and drops everything queued. */
+  flush() {
+    this.generation++;
+    this.playing = false;
+    this.output.port.postMessage({ type: 'flush' });
+  }
+
+  dispose() {
+    this.worker.terminate();
+    this.output.port.onmessage = null;
+    this.output.disconnect();
+  }
+
+  private handleDecoded({ bytes, channels, generation }: PlaybackResponse) {
+    if (generation !== this.generation) return;
+    this.dispatchEvent(new CustomEvent<DeckAudio>('audio', { detail: { bytes, channels } }));
+    this.queuedFrames += channels[0].length;
+    // Handed over to the worklet; listeners above are done with the floats.
+    this.output.port.postMessage({ type: 'chunk', channels }, channels.map((samples) => samples.buffer));
+  }
+}
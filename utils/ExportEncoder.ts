@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Mp3Encoder as LameEncoder } from '@breezystack/lamejs';
+import type { ExportMetadata, ExportOptions } from '../types';
+import { concatBytes, createWavHeader, createWavMetadataChunks } from './audio';
+import { FlacEncoder } from './FlacEncoder';
+import { OggOpusEncoder } from './OggOpusEncoder';
+
+/** Takes planar float audio block by block and produces the finished file. */
+export interface ExportEncoder {
+  encode(channels: Float32Array[]): Promise<void>;
+  finish(): Promise<Blob>;
+}
+
+class WavEncoder implements ExportEncoder {
+  private readonly parts: ArrayBuffer[] = [];
+  private dataSize = 0;
+
+  constructor(
+    private readonly sampleRate: number,
+    private readonly numChannels: number,
+    private readonly bitDepth: 16 | 24 | 32,
+    private readonly metadata?: ExportMetadata,
+  ) {}
+
+  async encode(channels: Float32Array[]) {
+    const frames = channels[0].length;
+    const bytesPerSample = this.bitDepth / 8;
+    const view = new DataView(new ArrayBuffer(frames * this.numChannels * bytesPerSample));
+    let offset = 0;
+    for (let i = 0; i < frames; i++) {
+      for (const samples of channels) {
+        const s = Math.max(-1, Math.min(1, samples[i]));
+        if (this.bitDepth === 32) {
+          view.setFloat32(offset, samples[i], true);
+        } else if (this.bitDepth === 24) {
+          const value = Math.round(s * 0x7fffff);
+          view.setUint8(offset, value & 0xff);
+          view.setInt16(offset + 1, value >> 8, true);
+        } else {
+          view.setInt16(offset, Math.round(s * 0x7fff), true);
+        }
+        offset += bytesPerSample;
+      }
+    }
+    this.parts.push(view.buffer);
+    this.dataSize += view.byteLength;
+  }
+
+  async finish(): Promise<Blob> {
+    const durationSeconds = this.dataSize / (this.numChannels * (this.bitDepth / 8) * this.sampleRate);
+    // The data chunk is padded to even length before any chunk that follows.
+    const trailing = this.metadata
+      ? concatBytes([
+        new Uint8Array(this.dataSize % 2),
+        createWavMetadataChunks(this.metadata, this.sampleRate, durationSeconds),
+      ])
+      : new Uint8Array(0);
+    const header = createWavHeader(this.dataSize, this.numChannels, this.sampleRate, this.bitDepth, trailing.length);
+    return new Blob([header, ...this.parts, trailing], { type: 'audio/wav' });
+  }
+}
+
+class Mp3Encoder implements ExportEncoder {
+  private readonly encoder: LameEncoder;
+  private readonly parts: Uint8Array[] = [];
+
+  constructor(sampleRate: number, private readonly numChannels: number, bitrate: number) {
+    this.encoder = new LameEncoder(numChannels, sampleRate, bitrate);
+  }
+
+  async encode(channels: Float32Array[]) {
+    const pcm = channels.map((samples) => Int16Array.from(samples, (s) => Math.round(Math.max(-1, Math.min(1, s)) * 0x7fff)));
+    this.push(this.numChannels === 1 ? this.encoder.encodeBuffer(pcm[0]) : this.encoder.encodeBuffer(pcm[0], pcm[1]));
+  }
+
+  async finish(): Promise<Blob> {
+    this.push(this.encoder.flush());
+    return new Blob(this.parts, { type: 'audio/mpeg' });
+  }
+
+  private push(bytes: Uint8Array) {
+    // The encoder reuses its output buffer, so keep a copy.
+    if (bytes.length > 0) this.parts.push(bytes.slice());
+  }
+}
+
+/** Picks the encoder for a format. Only WAV embeds the metadata so far. */
+export function createExportEncoder(options: ExportOptions, metadata?: ExportMetadata): ExportEncoder {
+  const { format, sampleRate, numChannels, bitDepth, bitrate } = options;
+  switch (format) {
+    case 'wav':
+      return new WavEncoder(sampleRate, numChannels, bitDepth, metadata);
+    case 'flac':
+      return new FlacEncoder(sampleRate, numChannels, bitDepth === 16 ? 16 : 24);
+    case 'opus':
+      return new OggOpusEncoder(sampleRate, numChannels, bitrate);
+    case 'mp3':
+      return new Mp3Encoder(sampleRate, numChannels, bitrate);
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExportEncoder } from './ExportEncoder';
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+/** Rice parameters are 5 bits wide with the RICE2 coding method. */
+const MAX_RICE_PARAM = 30;
+
+/** Appends values of up to 32 bits, most significant bit first. */
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  /** Bits not yet written out, fewer than 8 between calls. */
+  private current = 0;
+  private filled = 0;
+
+  write(value: number, bits: number) {
+    if (bits > 24) {
+      this.write(Math.floor(value / 2 ** 24) & ((1 << (bits - 24)) - 1), bits - 24);
+      this.write(value & 0xffffff, 24);
+      return;
+    }
+    this.current = (this.current << bits) | (value & ((1 << bits) - 1));
+    this.filled += bits;
+    while (this.filled >= 8) {
+      this.filled -= 8;
+      this.pushByte((this.current >>> this.filled) & 0xff);
+    }
+    this.current &= (1 << this.filled) - 1;
+  }
+
+  writeUnary(zeros: number) {
+    for (; zeros >= 24; zeros -= 24) this.write(0, 24);
+    this.write(1, zeros + 1);
+  }
+
+  writeRice(value: number, param: number) {
+    const folded = value >= 0 ? value * 2 : -value * 2 - 1;
+    this.writeUnary(Math.floor(folded / 2 ** param));
+    if (param > 0) this.write(folded % 2 ** param, param);
+  }
+
+  /** Pads the last byte with zeros. */
+  align() {
+    if (this.filled > 0) this.write(0, 8 - this.filled);
+  }
+
+  toBytes() {
+    return this.bytes.slice(0, this.length);
+  }
+
+  private pushByte(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+/** Table for an MSB-first CRC with the given polynomial and width. */
+function crcTable(poly: number, width: number) {
+  const top = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  return Uint16Array.from({ length: 256 }, (_, byte) => {
+    let crc = byte << (width - 8);
+    for (let i = 0; i < 8; i++) crc = crc & top ? ((crc << 1) ^ poly) & mask : (crc << 1) & mask;
+    return crc;
+  });
+}
+
+const CRC8_TABLE = crcTable(0x07, 8);
+const CRC16_TABLE = crcTable(0x8005, 16);
+
+function crc8(bytes: Uint8Array) {
+  let crc = 0;
+  for (const byte of bytes) crc = CRC8_TABLE[crc ^ byte];
+  return crc;
+}
+
+function crc16(bytes: Uint8Array) {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ byte];
+  return crc;
+}
+
+/** Frame numbers are stored with the same variable-length scheme as UTF-8. */
+function writeUtf8Number(writer: BitWriter, value: number) {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  // With n continuation bytes there is room for 5n + 6 bits.
+  let continuation = 1;
+  while (value >= 2 ** (5 * continuation + 6)) continuation++;
+  writer.write(((0xff << (7 - continuation)) & 0xff) | Math.floor(value / 2 ** (6 * continuation)), 8);
+  for (let i = continuation - 1; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+}
+
+function fixedResidual(samples: Int32Array, order: number): Int32Array {
+  const residual = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const x = samples;
+    let r: number;
+    switch (order) {
+      case 0: r = x[i]; break;
+      case 1: r = x[i] - x[i - 1]; break;
+      case 2: r = x[i] - 2 * x[i - 1] + x[i - 2]; break;
+      case 3: r = x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3]; break;
+      default: r = x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4];
+    }
+    residual[i - order] = r;
+  }
+  return residual;
+}
+
+function riceBits(residual: Int32Array, param: number) {
+  let bits = residual.length * (param + 1);
+  const divisor = 2 ** param;
+  for (const r of residual) bits += Math.floor((r >= 0 ? r * 2 : -r * 2 - 1) / divisor);
+  return bits;
+}
+
+/** Picks the Rice parameter with the fewest bits, starting from an estimate. */
+function bestRiceParam(residual: Int32Array): [param: number, bits: number] {
+  let sum = 0;
+  for (const r of residual) sum += Math.abs(r);
+  const mean = residual.length > 0 ? sum / residual.length : 0;
+  const estimate = mean > 1 ? Math.min(MAX_RICE_PARAM, Math.floor(Math.log2(mean))) : 0;
+  let best: [number, number] = [estimate, riceBits(residual, estimate)];
+  for (const param of [estimate - 1, estimate + 1]) {
+    if (param < 0 || param > MAX_RICE_PARAM) continue;
+    const bits = riceBits(residual, param);
+    if (bits < best[1]) best = [param, bits];
+  }
+  return best;
+}
+
+/**
+ * A small FLAC encoder. Each channel is coded independently with the best of
+ * the fixed predictors, or as a constant or verbatim subframe when that is
+ * smaller. The result is lossless, if not as compact as libFLAC's.
+ */
+export class FlacEncoder implements ExportEncoder {
+  private readonly frames: Uint8Array[] = [];
+  private pending: number[][];
+  private frameNumber = 0;
+  private totalSamples = 0;
+  private minFrameSize = Infinity;
+  private maxFrameSize = 0;
+  private readonly scale: number;
+
+  constructor(
+    private readonly sampleRate: number,
+    private readonly numChannels: number,
+    private readonly bitDepth: 16 | 24,
+  ) {
+    this.pending = Array.from({ length: numChannels }, () => []);
+    this.scale = 2 ** (bitDepth - 1);
+  }
+
+  async encode(channels: Float32Array[]) {
+    const max = this.scale - 1;
+    channels.forEach((samples, ch) => {
+      const pending = this.pending[ch];
+      for (const s of samples) pending.push(Math.round(Math.max(-1, Math.min(1, s)) * max));
+    });
+    while (this.pending[0].length >= BLOCK_SIZE) this.encodeFrame(BLOCK_SIZE);
+  }
+
+  async finish(): Promise<Blob> {
+    if (this.pending[0].length > 0) this.encodeFrame(this.pending[0].length);
+    return new Blob([this.createHeader(), ...this.frames], { type: 'audio/flac' });
+  }
+
+  private encodeFrame(blockSize: number) {
+    const writer = new BitWriter();
+    writer.write(0xfff8, 16); // Sync code, fixed block size
+    writer.write(0b0111, 4); // Block size stored after the frame number
+    writer.write(0b0000, 4); // Sample rate from STREAMINFO
+    writer.write(this.numChannels - 1, 4); // Independent channels
+    writer.write(0b000, 3); // Sample size from STREAMINFO
+    writer.write(0, 1);
+    writeUtf8Number(writer, this.frameNumber++);
+    writer.write(blockSize - 1, 16);
+    writer.write(crc8(writer.toBytes()), 8);
+
+    for (const pending of this.pending) {
+      this.encodeSubframe(writer, Int32Array.from(pending.splice(0, blockSize)));
+    }
+    writer.align();
+    writer.write(crc16(writer.toBytes()), 16);
+
+    const frame = writer.toBytes();
+    this.frames.push(frame);
+    this.totalSamples += blockSize;
+    this.minFrameSize = Math.min(this.minFrameSize, frame.length);
+    this.maxFrameSize = Math.max(this.maxFrameSize, frame.length);
+  }
+
+  private encodeSubframe(writer: BitWriter, samples: Int32Array) {
+    const bps = this.bitDepth;
+    const signed = (value: number) => (value < 0 ? value + 2 ** bps : value);
+
+    if (samples.every((s) => s === samples[0])) {
+      writer.write(0b00000000, 8); // CONSTANT
+      writer.write(signed(samples[0]), bps);
+      return;
+    }
+
+    let best = { order: -1, param: 0, residual: samples, bits: samples.length * bps };
+    for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, samples.length - 1); order++) {
+      const residual = fixedResidual(samples, order);
+      const [param, riceCost] = bestRiceParam(residual);
+      const bits = order * bps + 2 + 4 + 5 + riceCost;
+      if (bits < best.bits) best = { order, param, residual, bits };
+    }
+
+    if (best.order < 0) {
+      writer.write(0b00000010, 8); // VERBATIM
+      for (const s of samples) writer.write(signed(s), bps);
+      return;
+    }
+
+    writer.write(0b00010000 | (best.order << 1), 8); // FIXED
+    for (let i = 0; i < best.order; i++) writer.write(signed(samples[i]), bps);
+    writer.write(0b01, 2); // RICE2 coding
+    writer.write(0, 4); // A single partition
+    writer.write(best.param, 5);
+    for (const r of best.residual) writer.writeRice(r, best.param);
+  }
+
+  /** The "fLaC" marker and STREAMINFO, written last when the totals are known. */
+  private createHeader() {
+    const writer = new BitWriter();
+    for (const c of 'fLaC') writer.write(c.charCodeAt(0), 8);
+    writer.write(1, 1); // Last metadata block
+    writer.write(0, 7); // STREAMINFO
+    writer.write(34, 24);
+    writer.write(BLOCK_SIZE, 16);
+    writer.write(BLOCK_SIZE, 16);
+    writer.write(this.frames.length > 0 ? this.minFrameSize : 0, 24);
+    writer.write(this.maxFrameSize, 24);
+    writer.write(this.sampleRate, 20);
+    writer.write(this.numChannels - 1, 3);
+    writer.write(this.bitDepth - 1, 5);
+    writer.write(Math.floor(this.totalSamples / 2 ** 32), 4);
+    writer.write(this.totalSamples % 2 ** 32, 32);
+    for (let i = 0; i < 16; i++) writer.write(0, 8); // MD5 left unset
+    return writer.toBytes();
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AudioDevice } from '../types';
+import { concatBytes, createBlob, createWavHeader, decode, encode } from './audio';
+import { MixCapture, type CapturedAudio } from './MixCapture';
+
+/** The rate `createBlob` labels its PCM with. */
+const CLIP_SAMPLE_RATE = 16000;
+/** Seconds of the most recent input in each clip. */
+const CLIP_SECONDS = 8;
+/** Seconds between clips. */
+const CLIP_INTERVAL_SECONDS = 15;
+
+/**
+ * Listens to a microphone or line-in and, every CLIP_INTERVAL_SECONDS,
+ * dispatches the last CLIP_SECONDS of it as a 16 kHz mono WAV 'clip', ready
+ * for audio analysis. Processing that would colour a line-in is turned off.
+ */
+export class LiveInput extends EventTarget {
+  private context: AudioContext | null = null;
+  private stream: MediaStream | null = null;
+  private capture: MixCapture | null = null;
+  private blocks: Float32Array[] = [];
+  private bufferedFrames = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /** The audio inputs; labels stay empty until the page has media permission. */
+  static async listDevices(): Promise<AudioDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter((d) => d.kind === 'audioinput')
+      .map(({ deviceId, label }) => ({ deviceId, label }));
+  }
+
+  get isActive() {
+    return this.stream !== null;
+  }
+
+  /** Starts listening to `deviceId`, or the default input; asks for permission the first time. */
+  async start(deviceId?: string) {
+    this.stop();
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+      },
+    });
+    const context = new AudioContext();
+    try {
+      this.capture = await MixCapture.create(context, 1);
+    } catch (e) {
+      stream.getTracks().forEach((track) => track.stop());
+      context.close();
+      throw e;
+    }
+    this.stream = stream;
+    this.context = context;
+    this.capture.addEventListener('pcm', ((e: Event) => {
+      this.append((e as CustomEvent<CapturedAudio>).detail.channels[0]);
+    }));
+    context.createMediaStreamSource(stream).connect(this.capture.input);
+    this.capture.start();
+    this.timer = setInterval(() => this.dispatchClip(), CLIP_INTERVAL_SECONDS * 1000);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.capture?.stop();
+    this.capture = null;
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.context?.close();
+    this.context = null;
+    this.blocks = [];
+    this.bufferedFrames = 0;
+  }
+
+  private append(samples: Float32Array) {
+    if (!this.context) return;
+    this.blocks.push(samples);
+    this.bufferedFrames += samples.length;
+    const keep = CLIP_SECONDS * this.context.sampleRate;
+    while (this.bufferedFrames - this.blocks[0].length >= keep) {
+      this.bufferedFrames -= this.blocks.shift()!.length;
+    }
+  }
+
+  private async dispatchClip() {
+    if (!this.context || this.bufferedFrames === 0) return;
+    const sampleRate = this.context.sampleRate;
+    const samples = new Float32Array(this.bufferedFrames);
+    let offset = 0;
+    for (const block of this.blocks) {
+      samples.set(block, offset);
+      offset += block.length;
+    }
+
+    // Resampled offline so the rate change is filtered.
+    const offline = new OfflineAudioContext(1, Math.ceil(samples.length * CLIP_SAMPLE_RATE / sampleRate), CLIP_SAMPLE_RATE);
+    const buffer = offline.createBuffer(1, samples.length, sampleRate);
+    buffer.copyToChannel(samples, 0);
+    const source = new AudioBufferSourceNode(offline, { buffer });
+    source.connect(offline.destination);
+    source.start();
+    const resampled = await offline.startRendering();
+
+    // Analysis takes audio files rather than raw PCM, so it gets a WAV header.
+    const pcm = decode(createBlob(resampled.getChannelData(0)).data);
+    const header = new Uint8Array(createWavHeader(pcm.length, 1, CLIP_SAMPLE_RATE).buffer);
+    const clip = { data: encode(concatBytes([header, pcm])), mimeType: 'audio/wav' };
+    this.dispatchEvent(new CustomEvent<{ data: string; mimeType: string }>('clip', { detail: clip }));
+  }
+}
@@ -2,180 +2,288 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { PlaybackState, Prompt } from '../types';
-import type { AudioChunk, GoogleGenAI, LiveMusicFilteredPrompt, LiveMusicServerMessage, LiveMusicSession } from '@google/genai';
-import { decode, decodeAudioData, createWavBlob } from './audio';
-import { throttle } from './throttle';
+import type { BufferStats, CrossfaderState, DeckId, ExportMetadata, ExportOptions, LoopOptions, LoudnessStats, MasterFxParams, PlaybackState, Prompt, SessionFile } from '../types';
+import type { AudioChunk, LiveMusicGenerationConfig } from '@google/genai';
+import type { MusicEngine, MusicEngineSession } from './MusicEngine';
+import { decode, decodeAudioData, createSeamlessLoop } from './audio';
+import { encodeAudio } from './AudioExport';
+import { RecordingStore } from './RecordingStore';
+import { SessionTimeline, promptChangeMarkers, sessionBpm } from './SessionTimeline';
+import { LoudnessMeter } from './LoudnessMeter';
+import { MasterEffects, renderMasterFx } from './MasterEffects';
+import { MusicDeck, type DeckAudio } from './MusicDeck';
+import { MixCapture, type CapturedAudio } from './MixCapture';
+import { DEFAULT_CROSSFADER, crossfaderGains } from './crossfader';
+import { CueOutput } from './CueOutput';
 
-export class LiveMusicHelper extends EventTarget {
+/** Loop exports use this tempo when the config leaves BPM to the model. */
+const DEFAULT_LOOP_BPM = 120;
+/** Longest crossfade at the loop seam; shorter at fast tempos (half a beat). */
+const LOOP_CROSSFADE_SECONDS = 0.25;
+/** Time constant for crossfader moves, short enough to cut on the beat. */
+const CROSSFADER_SMOOTHING = 0.01;
 
-  private ai: GoogleGenAI;
-  private model: string;
+/** Deck events passed on unchanged. */
+const FORWARDED_EVENTS = ['filtered-prompt', 'reconnecting', 'error'];
 
-  private session: LiveMusicSession | null = null;
-  private sessionPromise: Promise<LiveMusicSession> | null = null;
+/** The transport shows the liveliest deck's state. */
+const STATE_PRIORITY: PlaybackState[] = ['playing', 'loading', 'reconnecting', 'paused', 'stopped'];
 
-  private connectionError = true;
+/**
+ * Plays deck A, or decks A and B blended by a crossfader, through the
+ * master effects, and records, meters and logs the set. With one deck the
+ * recording is the model's audio as it arrives; with two it is the mix,
+ * captured as it is heard. Decks and loop previews can also be cued to a
+ * second output, ahead of the crossfader and the effects.
+ */
+export class LiveMusicHelper extends EventTarget {
 
-  private filteredPrompts = new Set<string>();
-  private nextStartTime = 0;
-  private bufferTime = 2;
+  private readonly engine: MusicEngine;
+  private readonly decks = new Map<DeckId, MusicDeck>();
 
   public readonly audioContext: AudioContext;
   public extraDestination: AudioNode | null = null;
 
-  private outputNode: GainNode;
+  /** Each deck's output, split to its crossfader gain and its cue send. */
+  private readonly deckOutputs: Record<DeckId, GainNode>;
+  /** Each deck's crossfader gain, summed into the mix bus. */
+  private readonly deckGains: Record<DeckId, GainNode>;
+  private readonly cueSends: Record<DeckId, GainNode>;
+  private readonly cue: CueOutput;
+  private cueLoopSource: AudioBufferSourceNode | null = null;
+  private readonly mixBus: GainNode;
+  private crossfader: CrossfaderState = { ...DEFAULT_CROSSFADER };
+  /** Records the mix in two-deck mode; loaded the first time it is needed. */
+  private mixCapture: Promise<MixCapture> | null = null;
+  /** Sits between the mix and the speakers; exports can re-render it. */
+  private readonly masterFx: MasterEffects;
   private playbackState: PlaybackState = 'stopped';
 
-  private prompts: Map<string, Prompt>;
-  private recordedBytes: Uint8Array[] = [];
+  private generationConfig: LiveMusicGenerationConfig = {};
   private readonly sampleRate = 48000;
   private readonly numChannels = 2;
+  private readonly recording = new RecordingStore(this.sampleRate, this.numChannels);
+  private readonly timeline = new SessionTimeline();
+  /** Seconds of audio recorded since play, the clock for the timeline. */
+  private recordedSeconds = 0;
+  private loudness = new LoudnessMeter(this.sampleRate, this.numChannels);
 
-  constructor(ai: GoogleGenAI, model: string) {
+  constructor(engine: MusicEngine) {
     super();
-    this.ai = ai;
-    this.model = model;
-    this.prompts = new Map();
+    this.engine = engine;
     this.audioContext = new AudioContext({ sampleRate: this.sampleRate });
-    this.outputNode = this.audioContext.createGain();
+    this.mixBus = this.audioContext.createGain();
+    this.deckGains = { A: this.audioContext.createGain(), B: this.audioContext.createGain() };
+    this.cue = new CueOutput(this.audioContext);
+    this.deckOutputs = { A: this.audioContext.createGain(), B: this.audioContext.createGain() };
+    this.cueSends = { A: this.audioContext.createGain(), B: this.audioContext.createGain() };
+    for (const id of ['A', 'B'] as const) {
+      this.deckOutputs[id].connect(this.deckGains[id]).connect(this.mixBus);
+      this.deckOutputs[id].connect(this.cueSends[id]).connect(this.cue.input);
+      this.cueSends[id].gain.value = 0;
+    }
+    this.masterFx = new MasterEffects(this.audioContext);
+    this.mixBus.connect(this.masterFx.input);
+    this.masterFx.output.connect(this.audioContext.destination);
+    this.addDeck('A');
+    this.applyCrossfader();
+  }
+
+  public get isTwoDeck() {
+    return this.decks.has('B');
+  }
+
+  private addDeck(id: DeckId) {
+    const deck = new MusicDeck(this.engine, this.audioContext, this.deckOutputs[id], this.numChannels);
+    deck.setMusicGenerationConfig(this.generationConfig);
+    for (const type of FORWARDED_EVENTS) {
+      deck.addEventListener(type, (e: Event) => {
+        this.dispatchEvent(new CustomEvent(type, { detail: (e as CustomEvent).detail }));
+      });
+    }
+    deck.addEventListener('playback-state-changed', () => this.updatePlaybackState());
+    deck.addEventListener('prompts-applied', ((e: Event) => {
+      const prompts = (e as CustomEvent<Prompt[]>).detail;
+      this.timeline.logPrompts(this.deckLogTime(deck), prompts, this.isTwoDeck ? id : undefined);
+    }));
+    if (id === 'A') {
+      deck.addEventListener('buffer-stats', ((e: Event) => {
+        this.dispatchEvent(new CustomEvent<BufferStats>('buffer-stats', { detail: (e as CustomEvent<BufferStats>).detail }));
+      }));
+      deck.addEventListener('audio', ((e: Event) => {
+        if (this.isTwoDeck) return;
+        const { bytes, channels } = (e as CustomEvent<DeckAudio>).detail;
+        this.record(bytes, channels);
+      }));
+    }
+    this.decks.set(id, deck);
+  }
+
+  /**
+   * Adds or removes deck B. Only done while nothing plays, since it changes
+   * what the recording is made from.
+   */
+  public setTwoDeckMode(enabled: boolean) {
+    if (enabled === this.isTwoDeck) return;
+    if (this.playbackState !== 'stopped' && this.playbackState !== 'paused') return;
+    if (enabled) {
+      this.addDeck('B');
+      this.getMixCapture().catch((e) => console.error('Mix capture unavailable', e));
+    } else {
+      this.decks.get('B')!.dispose();
+      this.decks.delete('B');
+      this.updatePlaybackState();
+    }
+    this.applyCrossfader();
+  }
+
+  private getMixCapture(): Promise<MixCapture> {
+    if (!this.mixCapture) {
+      this.mixCapture = MixCapture.create(this.audioContext, this.numChannels).then((capture) => {
+        this.mixBus.connect(capture.input);
+        capture.addEventListener('pcm', ((e: Event) => {
+          if (!this.isTwoDeck) return;
+          const { bytes, channels } = (e as CustomEvent<CapturedAudio>).detail;
+          this.record(bytes, channels);
+        }));
+        return capture;
+      });
+    }
+    return this.mixCapture;
+  }
+
+  private record(bytes: Uint8Array, channels: Float32Array[]) {
+    this.recording.append(bytes);
+    this.recordedSeconds += bytes.length / (this.sampleRate * this.numChannels * 2);
+    this.loudness.process(channels);
+    this.dispatchEvent(new CustomEvent<LoudnessStats>('loudness', { detail: this.loudness.stats }));
   }
 
-  private getSession(): Promise<LiveMusicSession> {
-    if (!this.sessionPromise) this.sessionPromise = this.connect();
-    return this.sessionPromise;
+  /**
+   * Where in the recording a change sent to `deck` lands. A single deck is
+   * recorded as generated; in two-deck mode the mix is recorded as heard, and
+   * the deck's answer is heard once its buffered audio has played.
+   */
+  private deckLogTime(deck: MusicDeck) {
+    if (!this.isTwoDeck || this.playbackState !== 'playing') return this.recordedSeconds;
+    return this.recordedSeconds + deck.bufferedSeconds;
   }
 
-  private async connect(): Promise<LiveMusicSession> {
-    this.sessionPromise = this.ai.live.music.connect({
-      model: this.model,
-      callbacks: {
-        onmessage: async (e: LiveMusicServerMessage) => {
-          if (e.setupComplete) {
-            this.connectionError = false;
-          }
-          if (e.filteredPrompt) {
-            this.filteredPrompts = new Set([...this.filteredPrompts, e.filteredPrompt.text!])
-            this.dispatchEvent(new CustomEvent<LiveMusicFilteredPrompt>('filtered-prompt', { detail: e.filteredPrompt }));
-          }
-          if (e.serverContent?.audioChunks) {
-            await this.processAudioChunks(e.serverContent.audioChunks);
-          }
-        },
-        onerror: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'connectionError' }));
-        },
-        onclose: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'connectionError' }));
-        },
-      },
-    });
-    return this.sessionPromise;
+  /** How far into the recording the audience is. */
+  private get heardSeconds() {
+    if (this.isTwoDeck) return this.recordedSeconds;
+    return Math.max(0, this.recordedSeconds - this.decks.get('A')!.bufferedSeconds);
   }
 
-  private setPlaybackState(state: PlaybackState) {
+  private updatePlaybackState() {
+    const states = [...this.decks.values()].map((deck) => deck.state);
+    const state = STATE_PRIORITY.find((s) => states.includes(s)) ?? 'stopped';
+    const previous = this.playbackState;
     this.playbackState = state;
     this.dispatchEvent(new CustomEvent('playback-state-changed', { detail: state }));
-  }
 
-  private async processAudioChunks(audioChunks: AudioChunk[]) {
-    if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
-    const rawBytes = decode(audioChunks[0].data!);
-    this.recordedBytes.push(rawBytes);
-    const audioBuffer = await decodeAudioData(
-      rawBytes,
-      this.audioContext,
-      this.sampleRate,
-      this.numChannels,
-    );
-    const source = this.audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(this.outputNode);
-    if (this.nextStartTime === 0) {
-      this.nextStartTime = this.audioContext.currentTime + this.bufferTime;
-      setTimeout(() => {
-        this.setPlaybackState('playing');
-      }, this.bufferTime * 1000);
+    const stopped = state === 'paused' || state === 'stopped';
+    if (this.isTwoDeck && (state === 'playing' || stopped)) {
+      this.getMixCapture().then((capture) => stopped ? capture.stop() : capture.start(), () => {});
     }
-    if (this.nextStartTime < this.audioContext.currentTime) {
-      this.setPlaybackState('loading');
-      this.nextStartTime = 0;
-      return;
+    const wasStopped = previous === 'paused' || previous === 'stopped';
+    if (stopped && !wasStopped && this.recording.hasData) {
+      this.dispatchEvent(new CustomEvent('recording-available'));
     }
-    source.start(this.nextStartTime);
-    this.nextStartTime += audioBuffer.duration;
   }
 
-  public get activePrompts() {
-    return Array.from(this.prompts.values())
-      .filter((p) => {
-        return !this.filteredPrompts.has(p.text) && p.weight !== 0;
-      })
+  private promptSnapshot(deck?: DeckId) {
+    const decks = deck ? [this.decks.get(deck)!] : [...this.decks.values()];
+    return decks.flatMap((d) => d.activePrompts.map(({ text, weight }) => ({ text, weight })));
   }
 
-  public readonly setWeightedPrompts = throttle(async (prompts: Map<string, Prompt>) => {
-    this.prompts = prompts;
+  public setWeightedPrompts(prompts: Map<string, Prompt>, deck: DeckId = 'A') {
+    return this.decks.get(deck)?.setWeightedPrompts(prompts);
+  }
 
-    if (this.activePrompts.length === 0) {
-      this.dispatchEvent(new CustomEvent('error', { detail: 'noActivePromptError' }));
-      this.pause();
-      return;
-    }
+  public setMusicGenerationConfig(config: LiveMusicGenerationConfig) {
+    this.generationConfig = config;
+    this.timeline.logConfig(this.deckLogTime(this.decks.get('A')!), config);
+    for (const deck of this.decks.values()) deck.setMusicGenerationConfig(config);
+  }
 
-    // store the prompts to set later if we haven't connected yet
-    // there should be a user interaction before calling setWeightedPrompts
-    if (!this.session) return;
+  /** Moves the crossfader; it only takes effect in two-deck mode. */
+  public setCrossfader(crossfader: CrossfaderState) {
+    this.crossfader = { ...crossfader };
+    this.applyCrossfader();
+    if (this.isTwoDeck) this.timeline.logCrossfader(this.heardSeconds, this.crossfader);
+  }
 
-    try {
-      await this.session.setWeightedPrompts({
-        weightedPrompts: this.activePrompts,
-      });
-    } catch (e: any) {
-      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
-      this.pause();
-    }
-  }, 200);
+  private applyCrossfader() {
+    const [a, b] = this.isTwoDeck ? crossfaderGains(this.crossfader) : [1, 0];
+    const now = this.audioContext.currentTime;
+    this.deckGains.A.gain.setTargetAtTime(a, now, CROSSFADER_SMOOTHING);
+    this.deckGains.B.gain.setTargetAtTime(b, now, CROSSFADER_SMOOTHING);
+  }
+
+  /** Plays the cue output on `deviceId`, or turns it off when null. */
+  public setCueDevice(deviceId: string | null) {
+    return this.cue.setDevice(deviceId);
+  }
+
+  /** Sends a deck to the cue output or takes it off. */
+  public setCue(deck: DeckId, enabled: boolean) {
+    this.cueSends[deck].gain.setTargetAtTime(enabled ? 1 : 0, this.audioContext.currentTime, CROSSFADER_SMOOTHING);
+  }
+
+  /**
+   * Renders a loop as Download Loop would and plays it on repeat on the cue
+   * output, replacing any loop already cued. False if it could not be made.
+   */
+  public async cueLoop(options: LoopOptions, deck: DeckId = 'A'): Promise<boolean> {
+    const rendered = await this.renderLoop(options, deck);
+    if (!rendered) return false;
+    const bytes = new Uint8Array(rendered.loop.buffer, rendered.loop.byteOffset, rendered.loop.byteLength);
+    const buffer = await decodeAudioData(bytes, this.audioContext, this.sampleRate, this.numChannels);
+    this.stopCueLoop();
+    this.cueLoopSource = new AudioBufferSourceNode(this.audioContext, { buffer, loop: true });
+    this.cueLoopSource.connect(this.cue.input);
+    this.cueLoopSource.start();
+    return true;
+  }
+
+  public stopCueLoop() {
+    this.cueLoopSource?.stop();
+    this.cueLoopSource?.disconnect();
+    this.cueLoopSource = null;
+  }
+
+  /**
+   * Changes the master chain. The change is logged at the point of the
+   * recording being heard.
+   */
+  public setMasterFx(params: MasterFxParams) {
+    this.masterFx.set(params);
+    this.timeline.logFx(this.heardSeconds, params);
+  }
 
   public async play() {
-    this.recordedBytes = [];
-    this.setPlaybackState('loading');
-    this.session = await this.getSession();
-    await this.setWeightedPrompts(this.prompts);
+    this.recording.reset();
+    this.recordedSeconds = 0;
+    this.loudness = new LoudnessMeter(this.sampleRate, this.numChannels);
+    this.timeline.reset();
+    for (const [id, deck] of this.decks) {
+      this.timeline.logPrompts(0, deck.activePrompts, this.isTwoDeck ? id : undefined);
+    }
+    this.timeline.logConfig(0, this.generationConfig);
+    this.timeline.logFx(0, this.masterFx.params);
+    if (this.isTwoDeck) this.timeline.logCrossfader(0, this.crossfader);
     this.audioContext.resume();
-    this.session.play();
-    this.outputNode.connect(this.audioContext.destination);
-    if (this.extraDestination) this.outputNode.connect(this.extraDestination);
-    this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
+    if (this.extraDestination) this.masterFx.output.connect(this.extraDestination);
+    await Promise.all([...this.decks.values()].map((deck) => deck.play()));
   }
 
   public pause() {
-    if (this.session) this.session.pause();
-    this.setPlaybackState('paused');
-    this.outputNode.gain.setValueAtTime(1, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(0, this.audioContext.currentTime + 0.1);
-    this.nextStartTime = 0;
-    if (this.recordedBytes.length > 0) {
-      this.dispatchEvent(new CustomEvent('recording-available'));
-    }
-    this.outputNode = this.audioContext.createGain();
+    for (const deck of this.decks.values()) deck.pause();
   }
 
   public stop() {
-    if (this.session) this.session.stop();
-    this.setPlaybackState('stopped');
-    this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
-    this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
-    this.nextStartTime = 0;
-    if (this.recordedBytes.length > 0) {
-      this.dispatchEvent(new CustomEvent('recording-available'));
-    }
-    this.session = null;
-    this.sessionPromise = null;
+    for (const deck of this.decks.values()) deck.stop();
   }
 
   public async playPause() {
@@ -186,85 +294,185 @@ export class LiveMusicHelper extends EventTarget {
       case 'stopped':
         return this.play();
       case 'loading':
+      case 'reconnecting':
         return this.stop();
     }
   }
 
-  public getRecordedAudioBlob(): Blob | null {
-    if (this.recordedBytes.length === 0) {
-      return null;
+  /** Keeps only the last `minutes` of the recording, or all of it when null. */
+  public setRecordingLimit(minutes: number | null) {
+    this.recording.limitMinutes = minutes;
+  }
+
+  /** Looks for a recording that survived a reload; true if one was found. */
+  public restoreRecording(): Promise<boolean> {
+    return this.recording.restore();
+  }
+
+  /**
+   * Encodes the recording in the chosen export format, with the master
+   * effects rendered in unless the options bypass them. Formats that carry
+   * metadata get the style, the prompts, a marker at every change of the
+   * prompt set and, if it never changed, the BPM.
+   */
+  public async getRecordedAudioBlob(
+    options: ExportOptions,
+    styleName?: string,
+    onProgress?: (progress: number) => void,
+  ): Promise<Blob | null> {
+    const [recorded, session] = await Promise.all([this.recording.getPcmBlob(), this.getSessionFile()]);
+    if (!recorded || !session) return null;
+    const metadata: ExportMetadata = {
+      title: 'PromptDJ MIDI session',
+      styleName,
+      prompts: this.promptSnapshot(),
+      markers: promptChangeMarkers(session),
+      bpm: sessionBpm(session),
+    };
+    if (!options.applyMasterFx) {
+      return encodeAudio(recorded, this.sampleRate, this.numChannels, options, metadata, onProgress);
     }
-  
-    // Concatenate all Uint8Array chunks
-    const totalLength = this.recordedBytes.reduce((acc, val) => acc + val.length, 0);
-    const concatenatedBytes = new Uint8Array(totalLength);
-    let offset = 0;
-    for (const chunk of this.recordedBytes) {
-      concatenatedBytes.set(chunk, offset);
-      offset += chunk.length;
+    // Rendering the effects takes the first half of the progress bar.
+    const changes = session.events.flatMap((e) => e.type === 'fx' ? [{ time: e.time, fx: e.fx }] : []);
+    const pcm = await renderMasterFx(recorded, this.sampleRate, this.numChannels, changes, (p) => onProgress?.(p / 2));
+    return encodeAudio(pcm, this.sampleRate, this.numChannels, options, metadata, (p) => onProgress?.(0.5 + p / 2));
+  }
+
+  /** The prompt and config changes behind the current recording. */
+  public async getSessionFile(): Promise<SessionFile | null> {
+    await this.recording.flush();
+    if (!this.recording.hasData) return null;
+    return this.timeline.toSessionFile(
+      this.recording.durationSeconds,
+      this.recording.startSeconds,
+      this.sampleRate,
+      this.numChannels,
+    );
+  }
+
+  /**
+   * Encodes a loop of the prompts of `deck`, with the master effects as they
+   * are now unless the options bypass them.
+   */
+  public async downloadLoop(
+    loopOptions: LoopOptions,
+    options: ExportOptions,
+    deck: DeckId = 'A',
+    onProgress?: (progress: number) => void,
+  ): Promise<Blob | null> {
+    const rendered = await this.renderLoop(loopOptions, deck);
+    if (!rendered) return null;
+    let { loop } = rendered;
+    if (options.applyMasterFx) {
+        // Rendered twice over and the second pass kept, so the delay and
+        // reverb tails wrap around the seam.
+        const twice = await renderMasterFx(
+            new Blob([loop, loop]), this.sampleRate, this.numChannels, [{ time: 0, fx: this.masterFx.params }],
+        );
+        loop = new Int16Array(await twice.slice(loop.byteLength).arrayBuffer());
     }
-  
-    return createWavBlob(concatenatedBytes, this.numChannels, this.sampleRate);
+    const metadata: ExportMetadata = {
+        title: `PromptDJ MIDI loop (${loopOptions.bars} bars)`,
+        prompts: this.promptSnapshot(deck),
+        markers: [],
+        bpm: rendered.bpm,
+        loop: true,
+    };
+    return encodeAudio(new Blob([loop]), this.sampleRate, this.numChannels, options, metadata, onProgress);
   }
 
-  public async downloadLoop(durationSeconds = 20): Promise<Blob | null> {
-    if (this.activePrompts.length === 0) {
+  /**
+   * Renders a loop of `bars` bars in a separate session and trims it to bar
+   * boundaries, so it repeats cleanly. The first `skipSeconds` are skipped,
+   * rounded up to a whole bar, to give the model time to settle. Without a
+   * BPM in the config the loop session is pinned to 120 so bars are known.
+   * The loop is made from the prompts of `deck`.
+   */
+  private async renderLoop(
+    { bars, skipSeconds }: LoopOptions,
+    deck: DeckId,
+  ): Promise<{ loop: Int16Array; bpm: number } | null> {
+    const prompts = this.decks.get(deck)?.activePrompts ?? [];
+    if (prompts.length === 0) {
         this.dispatchEvent(new CustomEvent('error', { detail: 'noActivePromptError' }));
         return null;
     }
 
+    const bpm = this.generationConfig.bpm ?? DEFAULT_LOOP_BPM;
+    const beatFrames = (60 / bpm) * this.sampleRate;
+    const barFrames = Math.round(beatFrames * 4);
+    const startFrame = Math.ceil(skipSeconds * this.sampleRate / barFrames) * barFrames;
+    const loopFrames = bars * barFrames;
+    const crossfadeFrames = Math.round(Math.min(beatFrames / 2, LOOP_CROSSFADE_SECONDS * this.sampleRate));
+    const neededBytes = (startFrame + loopFrames + crossfadeFrames) * this.numChannels * 2;
+    const timeoutMs = (neededBytes / (this.sampleRate * this.numChannels * 2)) * 2000 + 15000;
+
     const recordedChunks: Uint8Array[] = [];
-    let tempSession: LiveMusicSession | null = null;
+    let receivedBytes = 0;
+    let tempSession: MusicEngineSession | null = null;
+    let onEnoughAudio = () => {};
+    const enoughAudio = new Promise<void>(resolve => onEnoughAudio = resolve);
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
 
     try {
-        tempSession = await this.ai.live.music.connect({
-            model: this.model,
-            callbacks: {
-                onmessage: (e: LiveMusicServerMessage) => {
-                    if (e.serverContent?.audioChunks) {
-                        for (const chunk of e.serverContent.audioChunks) {
-                            if (chunk.data) {
-                                const rawBytes = decode(chunk.data);
-                                recordedChunks.push(rawBytes);
-                            }
-                        }
+        tempSession = await this.engine.connect({
+            onSetupComplete: () => {},
+            onFilteredPrompt: () => {},
+            onAudioChunks: (audioChunks: AudioChunk[]) => {
+                for (const chunk of audioChunks) {
+                    if (chunk.data) {
+                        const rawBytes = decode(chunk.data);
+                        recordedChunks.push(rawBytes);
+                        receivedBytes += rawBytes.length;
                     }
-                },
-                onerror: (e) => {
-                    console.error("Loop generation error during playback", e);
-                },
+                }
+                if (receivedBytes >= neededBytes) onEnoughAudio();
+            },
+            onError: (e) => {
+                console.error("Loop generation error during playback", e);
             },
+            onClose: () => {},
         });
 
-        await tempSession.setWeightedPrompts({ weightedPrompts: this.activePrompts });
+        await tempSession.setWeightedPrompts(prompts);
+        await tempSession.setMusicGenerationConfig({ ...this.generationConfig, bpm });
         tempSession.play();
 
-        await new Promise(resolve => setTimeout(resolve, durationSeconds * 1000));
+        await Promise.race([
+            enoughAudio,
+            new Promise<void>(resolve => timeoutId = setTimeout(resolve, timeoutMs)),
+        ]);
         
     } catch (e) {
         console.error("Failed to setup or run loop generation session", e);
         throw e;
     } finally {
+        clearTimeout(timeoutId);
         if (tempSession) {
             tempSession.stop();
+            tempSession.close();
         }
     }
-    
-    await new Promise(resolve => setTimeout(resolve, 500));
 
-    if (recordedChunks.length === 0) {
-        console.warn("No audio chunks received for loop download.");
+    if (receivedBytes < neededBytes) {
+        console.warn("Not enough audio received for loop download.");
         return null;
     }
 
-    const totalLength = recordedChunks.reduce((acc, val) => acc + val.length, 0);
-    const concatenatedBytes = new Uint8Array(totalLength);
+    const concatenatedBytes = new Uint8Array(receivedBytes);
     let offset = 0;
     for (const chunk of recordedChunks) {
         concatenatedBytes.set(chunk, offset);
         offset += chunk.length;
     }
-    
-    return createWavBlob(concatenatedBytes, this.numChannels, this.sampleRate);
+
+    const loop = createSeamlessLoop(
+        new Int16Array(concatenatedBytes.buffer),
+        this.numChannels,
+        startFrame,
+        loopFrames,
+        crossfadeFrames,
+    );
+    return { loop, bpm };
   }
 }
\ No newline at end of file
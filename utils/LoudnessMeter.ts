@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { LoudnessStats } from '../types';
+
+/** Gating blocks advance in steps of this length, a quarter of a block. */
+const STEP_SECONDS = 0.1;
+const MOMENTARY_STEPS = 4;
+const SHORT_TERM_STEPS = 30;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+/** True peak is found by interpolating this many points per sample. */
+const OVERSAMPLE = 4;
+const INTERPOLATION_TAPS = 12;
+
+export function gainToDb(gain: number) {
+  return 20 * Math.log10(gain);
+}
+
+export function dbToGain(db: number) {
+  return 10 ** (db / 20);
+}
+
+function energyToLufs(energy: number) {
+  return -0.691 + 10 * Math.log10(energy);
+}
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number];
+}
+
+/** Runs one sample through a biquad whose state is [x1, x2, y1, y2]. */
+function runBiquad({ b, a }: Biquad, s: Float64Array, value: number) {
+  const out = b[0] * value + b[1] * s[0] + b[2] * s[1] - a[0] * s[2] - a[1] * s[3];
+  s[1] = s[0];
+  s[0] = value;
+  s[3] = s[2];
+  s[2] = out;
+  return out;
+}
+
+/** The two-stage K-weighting filter of ITU-R BS.1770, for any sample rate. */
+function kWeighting(sampleRate: number): Biquad[] {
+  let k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let q = 0.7071752369554196;
+  const vh = 10 ** (3.999843853973347 / 20);
+  const vb = vh ** 0.4996667741545416;
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b: [(vh + (vb * k) / q + k * k) / a0, (2 * (k * k - vh)) / a0, (vh - (vb * k) / q + k * k) / a0],
+    a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0],
+  };
+  k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  q = 0.5003270373238773;
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b: [1, -2, 1],
+    a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0],
+  };
+  return [shelf, highPass];
+}
+
+/**
+ * Finds the true peak of planar audio by 4x oversampling, as BS.1770 asks.
+ * For each frame it reports the highest level across channels at that
+ * sample and between it and the one before. The report lags the input by
+ * `TruePeakDetector.DELAY` frames, since interpolation needs later samples.
+ */
+export class TruePeakDetector {
+  static readonly DELAY = INTERPOLATION_TAPS / 2 - 1;
+
+  private readonly kernel = new Float32Array(OVERSAMPLE * INTERPOLATION_TAPS);
+  private history: Float32Array[];
+
+  constructor(numChannels: number) {
+    for (let phase = 1; phase < OVERSAMPLE; phase++) {
+      for (let tap = 0; tap < INTERPOLATION_TAPS; tap++) {
+        const x = tap - TruePeakDetector.DELAY - phase / OVERSAMPLE;
+        const sinc = Math.sin(Math.PI * x) / (Math.PI * x);
+        const window = 0.5 + 0.5 * Math.cos((Math.PI * x) / (INTERPOLATION_TAPS / 2));
+        this.kernel[phase * INTERPOLATION_TAPS + tap] = sinc * window;
+      }
+    }
+    this.history = Array.from({ length: numChannels }, () => new Float32Array(INTERPOLATION_TAPS - 1));
+  }
+
+  framePeaks(channels: Float32Array[]): Float32Array {
+    const frames = channels[0].length;
+    const peaks = new Float32Array(frames);
+    this.history = channels.map((samples, ch) => {
+      const x = new Float32Array(this.history[ch].length + frames);
+      x.set(this.history[ch]);
+      x.set(samples, this.history[ch].length);
+      for (let i = 0; i < frames; i++) {
+        let peak = Math.abs(x[i + TruePeakDetector.DELAY + 1]);
+        for (let phase = 1; phase < OVERSAMPLE; phase++) {
+          let sum = 0;
+          for (let tap = 0; tap < INTERPOLATION_TAPS; tap++) {
+            sum += x[i + tap] * this.kernel[phase * INTERPOLATION_TAPS + tap];
+          }
+          peak = Math.max(peak, Math.abs(sum));
+        }
+        peaks[i] = Math.max(peaks[i], peak);
+      }
+      return x.slice(frames);
+    });
+    return peaks;
+  }
+}
+
+/**
+ * Measures loudness per ITU-R BS.1770 / EBU R 128: momentary (400 ms),
+ * short-term (3 s) and gated integrated loudness in LUFS, plus true peak.
+ * Audio can be fed in blocks of any size as it arrives.
+ */
+export class LoudnessMeter {
+  private readonly filters: Biquad[];
+  /** Filter state per channel and stage. */
+  private readonly state: Float64Array[][];
+  private readonly detector: TruePeakDetector;
+  private readonly stepFrames: number;
+  private stepFill = 0;
+  private stepEnergy = 0;
+  /** Mean-square energy of the most recent steps, newest last. */
+  private recentSteps: number[] = [];
+  /** Energy of every 400 ms block so far, for the integrated gate. */
+  private blocks: number[] = [];
+  private maxShortTermEnergy = 0;
+  private peak = 0;
+
+  constructor(sampleRate: number, numChannels: number) {
+    this.filters = kWeighting(sampleRate);
+    this.state = Array.from({ length: numChannels }, () => this.filters.map(() => new Float64Array(4)));
+    this.detector = new TruePeakDetector(numChannels);
+    this.stepFrames = Math.round(sampleRate * STEP_SECONDS);
+  }
+
+  process(channels: Float32Array[]) {
+    const peaks = this.detector.framePeaks(channels);
+    for (const p of peaks) this.peak = Math.max(this.peak, p);
+
+    const frames = channels[0].length;
+    const energy = new Float64Array(frames);
+    const [shelf, highPass] = this.filters;
+    channels.forEach((samples, ch) => {
+      const [shelfState, highPassState] = this.state[ch];
+      for (let i = 0; i < frames; i++) {
+        const weighted = runBiquad(highPass, highPassState, runBiquad(shelf, shelfState, samples[i]));
+        energy[i] += weighted * weighted;
+      }
+    });
+    for (let i = 0; i < frames; i++) {
+      this.stepEnergy += energy[i];
+      if (++this.stepFill === this.stepFrames) this.completeStep();
+    }
+  }
+
+  private completeStep() {
+    this.recentSteps.push(this.stepEnergy / this.stepFrames);
+    if (this.recentSteps.length > SHORT_TERM_STEPS) this.recentSteps.shift();
+    this.stepFill = 0;
+    this.stepEnergy = 0;
+
+    const momentary = this.meanOfLast(MOMENTARY_STEPS);
+    if (momentary !== null) this.blocks.push(momentary);
+    const shortTerm = this.meanOfLast(SHORT_TERM_STEPS);
+    if (shortTerm !== null) this.maxShortTermEnergy = Math.max(this.maxShortTermEnergy, shortTerm);
+  }
+
+  private meanOfLast(steps: number): number | null {
+    if (this.recentSteps.length < steps) return null;
+    const window = this.recentSteps.slice(-steps);
+    return window.reduce((acc, e) => acc + e, 0) / steps;
+  }
+
+  get momentary() {
+    return energyToLufs(this.meanOfLast(MOMENTARY_STEPS) ?? 0);
+  }
+
+  get shortTerm() {
+    return energyToLufs(this.meanOfLast(SHORT_TERM_STEPS) ?? 0);
+  }
+
+  get maxShortTerm() {
+    return energyToLufs(this.maxShortTermEnergy);
+  }
+
+  /** Gated loudness over everything measured; -Infinity while silent. */
+  get integrated() {
+    const aboveAbsolute = this.blocks.filter((e) => energyToLufs(e) > ABSOLUTE_GATE);
+    if (aboveAbsolute.length === 0) return -Infinity;
+    const mean = (blocks: number[]) => blocks.reduce((acc, e) => acc + e, 0) / blocks.length;
+    const relativeGate = energyToLufs(mean(aboveAbsolute)) + RELATIVE_GATE;
+    const gated = aboveAbsolute.filter((e) => energyToLufs(e) > relativeGate);
+    return energyToLufs(mean(gated));
+  }
+
+  /** Highest true peak so far, in dBTP. */
+  get truePeak() {
+    return gainToDb(this.peak);
+  }
+
+  get stats(): LoudnessStats {
+    return {
+      momentary: this.momentary,
+      shortTerm: this.shortTerm,
+      maxShortTerm: this.maxShortTerm,
+      integrated: this.integrated,
+      truePeak: this.truePeak,
+    };
+  }
+}
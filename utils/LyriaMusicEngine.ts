@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GoogleGenAI, LiveMusicServerMessage } from '@google/genai';
+import type { MusicEngine, MusicEngineCallbacks, MusicEngineSession } from './MusicEngine';
+
+/** Generates music with Lyria RealTime through the Gemini API. */
+export class LyriaMusicEngine implements MusicEngine {
+  constructor(
+    private readonly ai: GoogleGenAI,
+    private readonly model: string,
+  ) {}
+
+  async connect(callbacks: MusicEngineCallbacks): Promise<MusicEngineSession> {
+    const session = await this.ai.live.music.connect({
+      model: this.model,
+      callbacks: {
+        onmessage: (e: LiveMusicServerMessage) => {
+          if (e.setupComplete) callbacks.onSetupComplete();
+          if (e.filteredPrompt) callbacks.onFilteredPrompt(e.filteredPrompt);
+          if (e.serverContent?.audioChunks) callbacks.onAudioChunks(e.serverContent.audioChunks);
+        },
+        onerror: (e) => callbacks.onError(e),
+        onclose: () => callbacks.onClose(),
+      },
+    });
+    return {
+      setWeightedPrompts: (weightedPrompts) => session.setWeightedPrompts({ weightedPrompts }),
+      setMusicGenerationConfig: (musicGenerationConfig) => session.setMusicGenerationConfig({ musicGenerationConfig }),
+      play: () => session.play(),
+      pause: () => session.pause(),
+      stop: () => session.stop(),
+      resetContext: () => session.resetContext(),
+      close: () => session.close(),
+    };
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MasterFxParams } from '../types';
+import { decodeAudioData } from './audio';
+
+export const DEFAULT_MASTER_FX: MasterFxParams = {
+  enabled: true,
+  eqLow: 0,
+  eqMid: 0,
+  eqHigh: 0,
+  filter: 0,
+  resonance: 6,
+  delayTime: 0.375,
+  delayFeedback: 0.4,
+  delayMix: 0,
+  reverbMix: 0,
+  compThreshold: 0,
+  compRatio: 1,
+  limiterCeiling: -1,
+};
+
+const EQ_LOW_HZ = 250;
+const EQ_MID_HZ = 1000;
+const EQ_HIGH_HZ = 4000;
+/** The DJ filter sweeps exponentially between these cutoffs. */
+const FILTER_MIN_HZ = 20;
+const FILTER_MAX_HZ = 20000;
+const MAX_DELAY_SECONDS = 2;
+const REVERB_SECONDS = 2.5;
+/** Time constant for parameter changes, so knob moves don't click. */
+const PARAM_SMOOTHING = 0.02;
+
+/** Offline renders run in segments this long, each warmed up by the preroll. */
+const RENDER_SEGMENT_SECONDS = 30;
+/** Long enough for the reverb tail and the first delay repeats to build up. */
+const RENDER_PREROLL_SECONDS = 5;
+
+/**
+ * A decaying noise burst for the convolution reverb. The noise is seeded so
+ * that offline renders get the same impulse as live playback.
+ */
+function createImpulse(context: BaseAudioContext, numChannels: number): AudioBuffer {
+  const frames = Math.round(REVERB_SECONDS * context.sampleRate);
+  const impulse = context.createBuffer(numChannels, frames, context.sampleRate);
+  let seed = 0x2545f491;
+  for (let ch = 0; ch < numChannels; ch++) {
+    const data = impulse.getChannelData(ch);
+    for (let i = 0; i < frames; i++) {
+      // xorshift32
+      seed ^= seed << 13;
+      seed ^= seed >>> 17;
+      seed ^= seed << 5;
+      const noise = (seed >>> 0) / 0xffffffff * 2 - 1;
+      data[i] = noise * (1 - i / frames) ** 3;
+    }
+  }
+  return impulse;
+}
+
+/**
+ * The master chain: 3-band EQ, DJ filter, feedback delay, convolution
+ * reverb, compressor and a brickwall limiter, in that order. It works in any
+ * context, so exports can be rendered offline through the same nodes the
+ * audience heard. Disabling it crossfades to a dry bypass.
+ */
+export class MasterEffects {
+  readonly input: GainNode;
+  readonly output: GainNode;
+
+  private readonly eqLow: BiquadFilterNode;
+  private readonly eqMid: BiquadFilterNode;
+  private readonly eqHigh: BiquadFilterNode;
+  private readonly lowPass: BiquadFilterNode;
+  private readonly highPass: BiquadFilterNode;
+  private readonly delay: DelayNode;
+  private readonly delayFeedback: GainNode;
+  private readonly delayWet: GainNode;
+  private readonly reverbWet: GainNode;
+  private readonly compressor: DynamicsCompressorNode;
+  private readonly limiter: DynamicsCompressorNode;
+  /** Gains around the clipper, which clips at ±1, that move it to the ceiling. */
+  private readonly clipDrive: GainNode;
+  private readonly clipLevel: GainNode;
+  private readonly wet: GainNode;
+  private readonly bypass: GainNode;
+  private current: MasterFxParams;
+
+  constructor(private readonly context: BaseAudioContext, params: MasterFxParams = DEFAULT_MASTER_FX) {
+    this.input = context.createGain();
+    this.output = context.createGain();
+
+    this.eqLow = new BiquadFilterNode(context, { type: 'lowshelf', frequency: EQ_LOW_HZ });
+    this.eqMid = new BiquadFilterNode(context, { type: 'peaking', frequency: EQ_MID_HZ, Q: 0.7 });
+    this.eqHigh = new BiquadFilterNode(context, { type: 'highshelf', frequency: EQ_HIGH_HZ });
+    this.lowPass = new BiquadFilterNode(context, { type: 'lowpass', frequency: FILTER_MAX_HZ, Q: 0 });
+    this.highPass = new BiquadFilterNode(context, { type: 'highpass', frequency: FILTER_MIN_HZ, Q: 0 });
+
+    this.delay = new DelayNode(context, { maxDelayTime: MAX_DELAY_SECONDS });
+    this.delayFeedback = context.createGain();
+    this.delayWet = context.createGain();
+    const reverb = new ConvolverNode(context, { buffer: createImpulse(context, 2) });
+    this.reverbWet = context.createGain();
+
+    this.compressor = new DynamicsCompressorNode(context, { knee: 6, attack: 0.01, release: 0.25 });
+    this.limiter = new DynamicsCompressorNode(context, { knee: 0, ratio: 20, attack: 0.001, release: 0.05 });
+    // The limiter lets fast transients overshoot a little; the clipper catches them.
+    this.clipDrive = context.createGain();
+    const clipper = new WaveShaperNode(context, { curve: new Float32Array([-1, 1]) });
+    this.clipLevel = context.createGain();
+    this.wet = context.createGain();
+    this.bypass = context.createGain();
+
+    this.input.connect(this.eqLow).connect(this.eqMid).connect(this.eqHigh)
+      .connect(this.lowPass).connect(this.highPass);
+    const delayBus = context.createGain();
+    this.highPass.connect(delayBus);
+    this.highPass.connect(this.delay);
+    this.delay.connect(this.delayFeedback).connect(this.delay);
+    this.delay.connect(this.delayWet).connect(delayBus);
+    const reverbBus = context.createGain();
+    delayBus.connect(reverbBus);
+    delayBus.connect(reverb).connect(this.reverbWet).connect(reverbBus);
+    reverbBus.connect(this.compressor).connect(this.limiter)
+      .connect(this.clipDrive).connect(clipper).connect(this.clipLevel)
+      .connect(this.wet).connect(this.output);
+    this.input.connect(this.bypass).connect(this.output);
+
+    this.current = { ...params };
+    this.apply(params, (param, value) => param.value = value);
+  }
+
+  get params(): MasterFxParams {
+    return { ...this.current };
+  }
+
+  /** Glides to new settings, starting at `when` on the context's clock. */
+  set(params: MasterFxParams, when = this.context.currentTime) {
+    this.current = { ...params };
+    this.apply(params, (param, value) => param.setTargetAtTime(value, when, PARAM_SMOOTHING));
+  }
+
+  private apply(params: MasterFxParams, setParam: (param: AudioParam, value: number) => void) {
+    setParam(this.eqLow.gain, params.eqLow);
+    setParam(this.eqMid.gain, params.eqMid);
+    setParam(this.eqHigh.gain, params.eqHigh);
+
+    // Centre is open; left closes the low-pass, right raises the high-pass.
+    const range = FILTER_MAX_HZ / FILTER_MIN_HZ;
+    const lowPass = params.filter < 0;
+    const highPass = params.filter > 0;
+    setParam(this.lowPass.frequency, lowPass ? FILTER_MAX_HZ / range ** -params.filter : FILTER_MAX_HZ);
+    setParam(this.highPass.frequency, highPass ? FILTER_MIN_HZ * range ** params.filter : FILTER_MIN_HZ);
+    setParam(this.lowPass.Q, lowPass ? params.resonance : 0);
+    setParam(this.highPass.Q, highPass ? params.resonance : 0);
+
+    setParam(this.delay.delayTime, params.delayTime);
+    setParam(this.delayFeedback.gain, params.delayFeedback);
+    setParam(this.delayWet.gain, params.delayMix);
+    setParam(this.reverbWet.gain, params.reverbMix);
+
+    setParam(this.compressor.threshold, params.compThreshold);
+    setParam(this.compressor.ratio, params.compRatio);
+    const ceiling = 10 ** (params.limiterCeiling / 20);
+    setParam(this.limiter.threshold, params.limiterCeiling);
+    setParam(this.clipDrive.gain, 1 / ceiling);
+    setParam(this.clipLevel.gain, ceiling);
+
+    setParam(this.wet.gain, params.enabled ? 1 : 0);
+    setParam(this.bypass.gain, params.enabled ? 0 : 1);
+  }
+}
+
+/** A change to the chain, `time` seconds into the audio. */
+export interface MasterFxChange {
+  time: number;
+  fx: MasterFxParams;
+}
+
+/**
+ * Runs interleaved 16-bit PCM through the master chain offline, following
+ * the recorded changes, and returns it in the same format. Long audio is
+ * rendered a segment at a time so it never has to fit in memory whole.
+ */
+export async function renderMasterFx(
+  pcm: Blob,
+  sampleRate: number,
+  numChannels: number,
+  changes: MasterFxChange[],
+  onProgress?: (progress: number) => void,
+): Promise<Blob> {
+  const bytesPerFrame = numChannels * 2;
+  const totalFrames = Math.floor(pcm.size / bytesPerFrame);
+  const segmentFrames = RENDER_SEGMENT_SECONDS * sampleRate;
+  const prerollFrames = RENDER_PREROLL_SECONDS * sampleRate;
+  const parts: Blob[] = [];
+
+  for (let start = 0; start < totalFrames; start += segmentFrames) {
+    const end = Math.min(start + segmentFrames, totalFrames);
+    const renderStart = Math.max(0, start - prerollFrames);
+    const bytes = new Uint8Array(await pcm.slice(renderStart * bytesPerFrame, end * bytesPerFrame).arrayBuffer());
+
+    const context = new OfflineAudioContext(numChannels, end - renderStart, sampleRate);
+    const source = context.createBufferSource();
+    source.buffer = await decodeAudioData(bytes, context, sampleRate, numChannels);
+    const startTime = renderStart / sampleRate;
+    const initial = changes.filter((c) => c.time <= startTime).pop()?.fx ?? DEFAULT_MASTER_FX;
+    const effects = new MasterEffects(context, initial);
+    for (const change of changes) {
+      if (change.time > startTime && change.time < end / sampleRate) {
+        effects.set(change.fx, change.time - startTime);
+      }
+    }
+    source.connect(effects.input);
+    effects.output.connect(context.destination);
+    source.start();
+    const rendered = await context.startRendering();
+
+    const skip = start - renderStart;
+    const frames = end - start;
+    const out = new Int16Array(frames * numChannels);
+    for (let ch = 0; ch < numChannels; ch++) {
+      const samples = rendered.getChannelData(ch);
+      for (let i = 0; i < frames; i++) {
+        out[i * numChannels + ch] = Math.round(Math.max(-1, Math.min(1, samples[skip + i])) * 0x7fff);
+      }
+    }
+    parts.push(new Blob([out]));
+    onProgress?.(end / totalFrames);
+  }
+  return new Blob(parts);
+}
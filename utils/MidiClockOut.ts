@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { BeatInfo } from '../types';
+import { contextTimeToPerformance } from './BeatTracker';
+
+/** MIDI real-time messages. */
+const TIMING_CLOCK = 0xf8;
+const START = 0xfa;
+const STOP = 0xfc;
+const PULSES_PER_BEAT = 24;
+const BEATS_PER_BAR = 4;
+/** The scheduler runs this often and sends pulses this far ahead, in ms. */
+const SCHEDULE_INTERVAL_MS = 25;
+const LOOKAHEAD_MS = 100;
+/** The most phase error, in beats, made up over the following beat. */
+const MAX_CORRECTION = 0.125;
+
+/**
+ * Sends MIDI Clock that follows the beat tracker, so drum machines and
+ * lighting rigs run in time with the stream. Start goes out on the first
+ * downbeat after start(); pulses are timestamped ahead of time so they do
+ * not jitter with the main thread. If the tracker loses the tempo the clock
+ * runs on at the last one. If the output is unplugged the clock stops, and
+ * starts again on a downbeat once it is back.
+ */
+export class MidiClockOut {
+  private output: MIDIOutput | null = null;
+  /** The transport is playing; Start goes out on the next downbeat. */
+  private armed = false;
+  private running = false;
+  private beatMs = 500;
+  /** A tracked beat in `performance.now()` time, for pulses to line up with. */
+  private beatAnchor = 0;
+  private nextPulseTime = 0;
+  private pulse = 0;
+  private pulseMs = this.beatMs / PULSES_PER_BEAT;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly context: AudioContext) {}
+
+  /** Moves the clock to another output, or turns it off when null. */
+  setOutput(output: MIDIOutput | null) {
+    if (output === this.output) return;
+    this.halt();
+    this.output = output;
+  }
+
+  start() {
+    this.armed = true;
+  }
+
+  stop() {
+    this.armed = false;
+    this.halt();
+  }
+
+  /** Takes the tempo and phase of a tracked beat; starts the clock before a downbeat. */
+  follow(beat: BeatInfo) {
+    this.beatMs = 60000 / beat.bpm;
+    this.beatAnchor = contextTimeToPerformance(this.context, beat.time);
+    if (this.armed && !this.running && this.isConnected() && beat.beat === BEATS_PER_BAR - 1) {
+      this.begin(this.beatAnchor + this.beatMs);
+    }
+  }
+
+  /** Sends Start so that the first pulse after it falls on `downbeat`. */
+  private begin(downbeat: number) {
+    this.output!.send([START], downbeat - 1);
+    this.running = true;
+    this.pulse = 0;
+    this.nextPulseTime = downbeat;
+    this.timer = setInterval(() => this.schedule(), SCHEDULE_INTERVAL_MS);
+    this.schedule();
+  }
+
+  private halt() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    if (this.running && this.isConnected()) this.output!.send([STOP]);
+    this.running = false;
+  }
+
+  private isConnected() {
+    return this.output?.state === 'connected';
+  }
+
+  private schedule() {
+    if (!this.isConnected()) {
+      this.halt();
+      return;
+    }
+    const horizon = performance.now() + LOOKAHEAD_MS;
+    while (this.nextPulseTime < horizon) {
+      if (this.pulse === 0) {
+        // Each beat's pulses are stretched or squeezed to land the next
+        // beat on the tracked grid.
+        const beats = Math.round((this.nextPulseTime - this.beatAnchor) / this.beatMs);
+        const error = this.beatAnchor + beats * this.beatMs - this.nextPulseTime;
+        const limit = this.beatMs * MAX_CORRECTION;
+        this.pulseMs = (this.beatMs + Math.max(-limit, Math.min(limit, error))) / PULSES_PER_BEAT;
+      }
+      this.output!.send([TIMING_CLOCK], this.nextPulseTime);
+      this.pulse = (this.pulse + 1) % PULSES_PER_BEAT;
+      this.nextPulseTime += this.pulseMs;
+    }
+  }
+}
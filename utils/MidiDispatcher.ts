@@ -2,16 +2,148 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { ControlChange } from '../types';
+import type { Aftertouch, ControlChange, MidiBinding, MidiControlMessage, MidiMapping, MidiMappingOptions, MidiMessageType, MidiValueMode, NoteMessage } from '../types';
+import { t } from './i18n';
 
-/** Simple class for dispatching MIDI CC messages as events. */
+/** Status bytes, before the channel is added. */
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const POLY_AFTERTOUCH = 0xa0;
+const CONTROL_CHANGE = 0xb0;
+const CHANNEL_AFTERTOUCH = 0xd0;
+
+/** The CCs that select a parameter number and send its value. */
+const DATA_ENTRY_MSB = 6;
+const DATA_ENTRY_LSB = 38;
+const NRPN_LSB = 98;
+const NRPN_MSB = 99;
+const RPN_LSB = 100;
+const RPN_MSB = 101;
+
+/**
+ * How near, out of 127, a control has to come to its target's value to pick
+ * it up, and how far the target can round what a control sent. Targets with
+ * coarser steps get one step instead.
+ */
+const PICKUP_TOLERANCE = 4;
+
+/** The parameter a controller has selected on a channel, and its value so far. */
+interface ParameterState {
+  /**
+   * Whether an NRPN or an RPN is selected. The data entry of RPNs is
+   * swallowed but left alone; the null RPN, 127/127, selects neither.
+   */
+  type: 'nrpn' | 'rpn' | null;
+  parameter: number;
+  data: number;
+}
+
+/** The parameter number the null RPN selects. */
+const NULL_RPN = 0x3fff;
+
+/** Every value mode, in the order they are offered. */
+export const MIDI_VALUE_MODES: MidiValueMode[] = [
+  'absolute',
+  'relative-twos-complement',
+  'relative-binary-offset',
+  'relative-sign-magnitude',
+  '14-bit',
+];
+
+function bindingKey(device: string | null, channel: number | null, type: MidiMessageType, number: number) {
+  return `${device ?? '*'}|${channel ?? '*'}|${type}|${number}`;
+}
+
+function mappingKey(target: string, type: MidiMessageType, device: string | null) {
+  return `${target}|${type}|${device ?? '*'}`;
+}
+
+function keyOf({ target, binding }: MidiMapping) {
+  return mappingKey(target, binding.type, binding.device);
+}
+
+function mappingOptions({ padMode, valueMode, pickup }: MidiMapping): MidiMappingOptions {
+  return { padMode, valueMode, pickup };
+}
+
+/** The steps a relative encoder sent, from its CC value. */
+function relativeSteps(mode: MidiValueMode, value: number) {
+  switch (mode) {
+    case 'relative-twos-complement':
+      return value < 64 ? value : value - 128;
+    case 'relative-binary-offset':
+      return value - 64;
+    case 'relative-sign-magnitude':
+      return value & 64 ? -(value & 63) : value;
+    default:
+      return null;
+  }
+}
+
+/** A binding as a short label, such as "CC:7", "N:36 ch2" or "NRPN:1024". */
+export function describeBinding({ type, number, channel }: MidiBinding) {
+  const label = `${t(type)}:${number}`;
+  return channel === null ? label : `${label} ${t('midiChannelShort', { channel: String(channel + 1) })}`;
+}
+
+/**
+ * Routes MIDI from any number of inputs through one mapping table. Each
+ * target (a prompt's id, or a global control's key such as 'fx:eqLow') can
+ * have a CC and a note bound to it on each device, on a given channel or on
+ * any, and a default for both that answers any device.
+ * Mapped messages are dispatched as 'control'; the rest go out as they are,
+ * as 'cc-message', 'note-on', 'note-off' and 'aftertouch'. Learning binds
+ * the next CC, NRPN or note, with its device and channel, so two
+ * controllers sending the same CC don't collide. Dispatches
+ * 'mappings-changed' when the table or the learning target changes.
+ *
+ * A CC can drive its target absolutely, as a relative encoder or as a 14-bit
+ * pair, and absolute controls can pick up their target: they are ignored
+ * until they pass its value, so a fader that was left elsewhere doesn't make
+ * it jump. Controls report their values through sendFeedback() for this.
+ *
+ * Control values can also be sent back to a feedback output so motorized
+ * faders and LED rings follow changes made elsewhere. 'feedback-sync' asks
+ * every control to resend its value, such as when the output connects.
+ */
 export class MidiDispatcher extends EventTarget {
   private access: MIDIAccess | null = null;
-  activeMidiInputId: string | null = null;
+  /** Inputs are listened to unless switched off here, so new ones just work. */
+  private readonly disabledInputIds = new Set<string>();
+  /** By target, message type and device. */
+  private readonly mappings = new Map<string, MidiMapping>();
+  /** The same mappings by device, channel, message type and number. */
+  private readonly routes = new Map<string, MidiMapping>();
+  /** Bindings each target falls back to, on any device and channel. */
+  private readonly defaults = new Map<string, MidiBinding>();
+  private learning: string | null = null;
+  /** The LSB that may follow the CC just learned, by device, channel and CC. */
+  private learnedLsb: string | null = null;
+  /** Kept while the port is unplugged, so it resyncs when it comes back. */
+  private feedbackOutputId: string | null = null;
+  private feedbackConnected = false;
+  /** The last value of each control, sent or received, so nothing is echoed twice. */
+  private readonly feedbackValues = new Map<string, number>();
+  /** Each target's value as last reported, which relative encoders and pickup start from. */
+  private readonly targetValues = new Map<string, number>();
+  /** How far apart, out of 127, the values each target can take are, as last reported. */
+  private readonly targetSteps = new Map<string, number>();
+  /** What each CC and NRPN mapping last sent its target, by target and message type. */
+  private readonly sentValues = new Map<string, number>();
+  /**
+   * Mappings whose target is where they left it, until it moves elsewhere:
+   * pickup controls that have caught it, and relative encoders, which carry
+   * on from their own position rather than one the target rounded.
+   */
+  private readonly caught = new Set<string>();
+  /** The last MSB of each 14-bit CC, by device, channel and CC, waiting for its LSB. */
+  private readonly msbValues = new Map<string, number>();
+  /** By device and channel. */
+  private readonly parameters = new Map<string, ParameterState>();
 
   private readonly onMidiMessage = (event: MIDIMessageEvent) => {
     const input = event.target as MIDIInput;
-    if (input.id !== this.activeMidiInputId) return;
+    if (this.disabledInputIds.has(input.id)) return;
 
     const { data } = event;
     if (!data) {
@@ -22,28 +154,78 @@ export class MidiDispatcher extends EventTarget {
     const statusByte = data[0];
     const channel = statusByte & 0x0f;
     const messageType = statusByte & 0xf0;
+    const device = input.name ?? '';
 
-    const isControlChange = messageType === 0xb0;
-    if (!isControlChange) return;
+    if (messageType === CHANNEL_AFTERTOUCH) {
+      this.routeChannelPressure(device, channel, data[1]);
+      return;
+    }
+
+    let type: MidiMessageType;
+    let kind: MidiControlMessage['kind'];
+    if (messageType === CONTROL_CHANGE) {
+      type = 'cc';
+      kind = 'cc';
+    } else if (messageType === NOTE_ON || messageType === NOTE_OFF || messageType === POLY_AFTERTOUCH) {
+      type = 'note';
+      // Note On with velocity 0 is a Note Off by convention.
+      kind = messageType === POLY_AFTERTOUCH ? 'aftertouch'
+        : messageType === NOTE_ON && data[2] > 0 ? 'note-on' : 'note-off';
+    } else {
+      return;
+    }
+    const number = data[1];
+    const value = kind === 'note-off' ? 0 : data[2];
+
+    if (kind === 'cc' && this.handleParameterCc(device, channel, number, value)) return;
 
-    const detail: ControlChange = { cc: data[1], value: data[2], channel };
-    this.dispatchEvent(
-      new CustomEvent<ControlChange>('cc-message', { detail }),
-    );
+    if (this.learning && (kind === 'cc' || kind === 'note-on')) {
+      this.learnBinding({ device, channel, type, number });
+      return;
+    }
+
+    // The LSB of a 14-bit CC whose MSB was just learned is part of the same move.
+    const learnedLsb = this.learnedLsb;
+    this.learnedLsb = null;
+    if (kind === 'cc' && learnedLsb === bindingKey(device, channel, type, number)) return;
+
+    if (kind === 'cc' && this.handleFineCc(device, channel, number, value)) return;
+
+    // A controller that is also the feedback output already shows what it sent.
+    if (kind !== 'aftertouch' && this.isFeedbackDevice(device)) {
+      this.feedbackValues.set(bindingKey(null, channel, type, number), value);
+    }
+
+    const mapping = this.route(device, channel, type, number);
+    if (mapping && kind === 'cc') {
+      this.controlCc(mapping, value);
+    } else if (mapping) {
+      this.dispatchEvent(new CustomEvent<MidiControlMessage>('control', {
+        detail: { target: mapping.target, kind, value, mapping },
+      }));
+    } else if (kind === 'cc') {
+      this.dispatchEvent(new CustomEvent<ControlChange>('cc-message', { detail: { cc: number, value, channel } }));
+    } else if (kind === 'aftertouch') {
+      this.dispatchEvent(new CustomEvent<Aftertouch>('aftertouch', { detail: { note: number, pressure: value, channel } }));
+    } else {
+      this.dispatchEvent(new CustomEvent<NoteMessage>(kind, { detail: { note: number, velocity: value, channel } }));
+    }
   };
 
   private readonly onStateChange = () => {
     if (!this.access) return;
 
-    const inputIds = [...this.access.inputs.keys()];
-    if (this.activeMidiInputId && !this.access.inputs.has(this.activeMidiInputId)) {
-      this.activeMidiInputId = inputIds.length > 0 ? inputIds[0] : null;
-    }
-
     for (const input of this.access.inputs.values()) {
       input.onmidimessage = this.onMidiMessage;
     }
-    
+
+    const feedbackConnected = this.getFeedbackOutput() !== null;
+    if (feedbackConnected && !this.feedbackConnected) {
+      this.feedbackConnected = true;
+      this.syncFeedback();
+    }
+    this.feedbackConnected = feedbackConnected;
+
     this.dispatchEvent(new CustomEvent('midi-devices-changed'));
   };
 
@@ -69,13 +251,208 @@ export class MidiDispatcher extends EventTarget {
       input.onmidimessage = this.onMidiMessage;
     }
 
-    const inputIds = [...this.access.inputs.keys()];
+    return [...this.access.inputs.keys()];
+  }
+
+  isInputEnabled(id: string) {
+    return !this.disabledInputIds.has(id);
+  }
+
+  setInputEnabled(id: string, enabled: boolean) {
+    if (enabled) {
+      this.disabledInputIds.delete(id);
+    } else {
+      this.disabledInputIds.add(id);
+    }
+  }
+
+  /** The target learning is waiting for, if any. */
+  get learningTarget() {
+    return this.learning;
+  }
+
+  /** Binds the next CC, NRPN or note to `target`, or stops learning when null. */
+  learn(target: string | null) {
+    this.learning = target;
+    this.dispatchEvent(new CustomEvent('mappings-changed'));
+  }
+
+  /** The first of the target's bindings of `type`, on whichever device. */
+  getMapping(target: string, type: MidiMessageType): MidiMapping | null {
+    return this.getMappings(target, type)[0] ?? null;
+  }
+
+  /** Every mapping, or those of `target` and `type`, in the order they were made. */
+  getMappings(target?: string, type?: MidiMessageType): MidiMapping[] {
+    return [...this.mappings.values()].filter((mapping) =>
+      (target === undefined || mapping.target === target)
+      && (type === undefined || mapping.binding.type === type));
+  }
+
+  /** The bindings of `target`, CC first, as a short label. */
+  describe(target: string): string {
+    return (['cc', 'nrpn', 'note'] as const)
+      .flatMap((type) => this.getMappings(target, type))
+      .map((mapping) => describeBinding(mapping.binding))
+      .join(' · ');
+  }
+
+  /**
+   * Binds `binding` to `target`, replacing the target's binding of that
+   * type on the same device, and its default. Bindings on other devices
+   * stay. Whatever the binding drove before is left unmapped.
+   */
+  map(binding: MidiBinding, target: string, options: MidiMappingOptions = {}) {
+    this.removeMapping(mappingKey(target, binding.type, binding.device));
+    this.removeMapping(mappingKey(target, binding.type, null));
+    const key = bindingKey(binding.device, binding.channel, binding.type, binding.number);
+    const previous = this.routes.get(key);
+    if (previous) this.removeMapping(keyOf(previous));
+
+    const mapping: MidiMapping = { target, binding, ...options };
+    this.mappings.set(keyOf(mapping), mapping);
+    this.routes.set(key, mapping);
+    this.feedbackValues.clear();
+    this.dispatchEvent(new CustomEvent('mappings-changed'));
+  }
+
+  /**
+   * Drops the target's binding of `type` on `device`, or its default when
+   * null. A target left without one falls back to its default.
+   */
+  unmap(target: string, type: MidiMessageType, device: string | null) {
+    this.removeMapping(mappingKey(target, type, device));
+    const fallback = this.defaults.get(mappingKey(target, type, null));
+    if (fallback && this.getMappings(target, type).length === 0
+      && !this.routes.has(bindingKey(null, null, type, fallback.number))) {
+      this.map(fallback, target);
+    } else {
+      this.dispatchEvent(new CustomEvent('mappings-changed'));
+    }
+  }
+
+  /**
+   * Sets the binding `target` has until something is learned for it. A
+   * default never takes over a binding that is in use.
+   */
+  setDefault(target: string, type: MidiMessageType, number: number) {
+    const key = mappingKey(target, type, null);
+    const previous = this.defaults.get(key);
+    const binding: MidiBinding = { device: null, channel: null, type, number };
+    this.defaults.set(key, binding);
 
-    if (inputIds.length > 0 && this.activeMidiInputId === null) {
-      this.activeMidiInputId = inputIds[0];
+    const current = this.mappings.get(key);
+    const isDefault = current
+      ? previous !== undefined && current.binding.channel === null && current.binding.number === previous.number
+      : this.getMappings(target, type).length === 0;
+    if (isDefault && !this.routes.has(bindingKey(null, null, type, number))) {
+      this.map(binding, target, current && mappingOptions(current));
     }
+  }
 
-    return inputIds;
+  /** The mappings learned on `device`, as saved in its profile. */
+  getDeviceMappings(device: string): MidiMapping[] {
+    return [...this.mappings.values()]
+      .filter((mapping) => mapping.binding.device === device)
+      .map((mapping) => ({ ...mapping, binding: { ...mapping.binding } }));
+  }
+
+  /** Replaces what is mapped on `device` with `mappings`, from a profile or a preset. */
+  applyMappings(device: string, mappings: MidiMapping[]) {
+    for (const { target, binding } of this.getDeviceMappings(device)) {
+      this.unmap(target, binding.type, device);
+    }
+    for (const { target, binding, ...options } of mappings) {
+      this.map({ ...binding, device }, target, options);
+    }
+  }
+
+  /** Changes how a mapping drives its target, such as a pad's mode or a knob's pickup. */
+  updateMapping(mapping: MidiMapping, options: MidiMappingOptions) {
+    const key = keyOf(mapping);
+    const current = this.mappings.get(key);
+    if (!current) return;
+    Object.assign(current, options);
+    this.caught.delete(key);
+    this.feedbackValues.clear();
+    this.dispatchEvent(new CustomEvent('mappings-changed'));
+  }
+
+  /** Output ports, once access has been granted. */
+  getMidiOutputIds(): string[] {
+    return this.access ? [...this.access.outputs.keys()] : [];
+  }
+
+  getOutput(id: string): MIDIOutput | null {
+    return this.access?.outputs.get(id) ?? null;
+  }
+
+  getOutputName(id: string): string | null {
+    return this.access?.outputs.get(id)?.name ?? null;
+  }
+
+  /** Sends control values to `id`, or stops sending when null, and syncs it. */
+  setFeedbackOutput(id: string | null) {
+    this.feedbackOutputId = id;
+    this.feedbackConnected = this.getFeedbackOutput() !== null;
+    if (this.feedbackConnected) this.syncFeedback();
+  }
+
+  /** Asks every control to send its current value, as a full controller dump. */
+  syncFeedback() {
+    this.feedbackValues.clear();
+    this.dispatchEvent(new CustomEvent('feedback-sync'));
+  }
+
+  /**
+   * Takes a target's value (0 to 127) for relative encoders and pickup, and
+   * sends it to the feedback output, unless it is already there: as a CC, a
+   * 14-bit pair or an NRPN, or as a note's velocity for pad LEDs. Bindings
+   * learned from another device are left alone. `step` is how far apart the
+   * values the target can take are, for one that rounds what it is sent.
+   */
+  sendFeedback(target: string, value: number, step = 0) {
+    value = Math.max(0, Math.min(127, value));
+    this.targetValues.set(target, value);
+    this.targetSteps.set(target, step);
+    for (const mapping of this.getMappings(target)) {
+      // Moved from elsewhere: pickup has to catch it again, and an encoder starts from here.
+      const key = keyOf(mapping);
+      const sent = this.sentValues.get(key);
+      if (sent !== undefined && Math.abs(sent - value) > this.tolerance(target)) this.caught.delete(key);
+    }
+
+    const output = this.getFeedbackOutput();
+    if (!output) return;
+    for (const mapping of this.getMappings(target)) {
+      const { device, type, number } = mapping.binding;
+      if (device !== null && device !== output.name) continue;
+      const channel = mapping.binding.channel ?? 0;
+      const fine = type === 'nrpn' || mapping.valueMode === '14-bit';
+      const data = Math.round(fine ? (value / 127) * 0x3fff : value);
+      const key = bindingKey(null, channel, type, number);
+      if (this.feedbackValues.get(key) === data) continue;
+      this.feedbackValues.set(key, data);
+      const status = CONTROL_CHANGE | channel;
+      if (type === 'note') {
+        output.send([NOTE_ON | channel, number, data]);
+      } else if (type === 'nrpn') {
+        output.send([status, NRPN_MSB, number >> 7, status, NRPN_LSB, number & 0x7f,
+          status, DATA_ENTRY_MSB, data >> 7, status, DATA_ENTRY_LSB, data & 0x7f]);
+      } else if (fine) {
+        output.send([status, number, data >> 7, status, number + 32, data & 0x7f]);
+      } else {
+        output.send([status, number, data]);
+      }
+    }
+  }
+
+  /** The names of the inputs that are plugged in. */
+  getInputNames(): string[] {
+    if (!this.access) return [];
+    return [...this.access.inputs.values()]
+      .filter((input) => input.state === 'connected' && input.name)
+      .map((input) => input.name!);
   }
 
   getDeviceName(id: string): string | null {
@@ -85,4 +462,164 @@ export class MidiDispatcher extends EventTarget {
     const input = this.access.inputs.get(id);
     return input ? input.name : null;
   }
-}
\ No newline at end of file
+
+  /** The most specific mapping for a message: device and channel, then either, then neither. */
+  private route(device: string, channel: number, type: MidiMessageType, number: number) {
+    return this.routes.get(bindingKey(device, channel, type, number))
+      ?? this.routes.get(bindingKey(device, null, type, number))
+      ?? this.routes.get(bindingKey(null, channel, type, number))
+      ?? this.routes.get(bindingKey(null, null, type, number))
+      ?? null;
+  }
+
+  /** Channel pressure goes to every pad bound on that channel. */
+  private routeChannelPressure(device: string, channel: number, pressure: number) {
+    const pads = [...this.mappings.values()].filter(({ binding }) => binding.type === 'note'
+      && (binding.device === null || binding.device === device)
+      && (binding.channel === null || binding.channel === channel));
+    if (pads.length === 0) {
+      this.dispatchEvent(new CustomEvent<Aftertouch>('aftertouch', { detail: { note: null, pressure, channel } }));
+      return;
+    }
+    for (const mapping of pads) {
+      this.dispatchEvent(new CustomEvent<MidiControlMessage>('control', {
+        detail: { target: mapping.target, kind: 'aftertouch', value: pressure, mapping },
+      }));
+    }
+  }
+
+  private learnBinding(binding: MidiBinding) {
+    const target = this.learning!;
+    this.learning = null;
+    // Keeps the pad mode or value mode of what it replaces on this device, or of the default.
+    const previous = this.mappings.get(mappingKey(target, binding.type, binding.device))
+      ?? this.mappings.get(mappingKey(target, binding.type, null));
+    this.map(binding, target, previous && mappingOptions(previous));
+    if (binding.type === 'cc' && binding.number < 32) {
+      this.learnedLsb = bindingKey(binding.device, binding.channel, 'cc', binding.number + 32);
+    }
+  }
+
+  /**
+   * Follows the parameter selects and data entry of NRPNs and RPNs, which
+   * are sent as runs of CCs. Returns whether the CC was part of one.
+   */
+  private handleParameterCc(device: string, channel: number, cc: number, value: number) {
+    const key = `${device}|${channel}`;
+    const state = this.parameters.get(key) ?? { type: null, parameter: 0, data: 0 };
+    if (cc === NRPN_MSB || cc === NRPN_LSB || cc === RPN_MSB || cc === RPN_LSB) {
+      const type = cc === NRPN_MSB || cc === NRPN_LSB ? 'nrpn' : 'rpn';
+      const parameter = state.type === type ? state.parameter : 0;
+      state.parameter = cc === NRPN_MSB || cc === RPN_MSB
+        ? (value << 7) | (parameter & 0x7f)
+        : (parameter & 0x3f80) | value;
+      state.type = type === 'rpn' && state.parameter === NULL_RPN ? null : type;
+    } else if ((cc === DATA_ENTRY_MSB || cc === DATA_ENTRY_LSB) && state.type !== null) {
+      // An MSB starts a new value, which a fine LSB may follow.
+      state.data = cc === DATA_ENTRY_MSB ? value << 7 : (state.data & 0x3f80) | value;
+      if (state.type === 'nrpn') this.handleNrpn(device, channel, state.parameter, state.data);
+    } else {
+      return false;
+    }
+    this.parameters.set(key, state);
+    return true;
+  }
+
+  private handleNrpn(device: string, channel: number, parameter: number, data: number) {
+    if (this.learning) {
+      this.learnBinding({ device, channel, type: 'nrpn', number: parameter });
+      return;
+    }
+    if (this.isFeedbackDevice(device)) {
+      this.feedbackValues.set(bindingKey(null, channel, 'nrpn', parameter), data);
+    }
+    const mapping = this.route(device, channel, 'nrpn', parameter);
+    if (mapping) this.controlValue(mapping, (data / 0x3fff) * 127);
+  }
+
+  /**
+   * Puts together the MSB and LSB of a 14-bit CC. The MSB moves the target
+   * on its own, as the LSB may never come. Returns whether the CC was part
+   * of a 14-bit pair.
+   */
+  private handleFineCc(device: string, channel: number, cc: number, value: number) {
+    const isLsb = cc >= 32 && cc < 64;
+    const mapping = this.route(device, channel, 'cc', isLsb ? cc - 32 : cc);
+    if (mapping?.valueMode !== '14-bit') return false;
+
+    const key = bindingKey(device, channel, 'cc', mapping.binding.number);
+    const msb = isLsb ? this.msbValues.get(key) ?? 0 : value;
+    const data = isLsb ? (msb << 7) | value : msb << 7;
+    this.msbValues.set(key, msb);
+    if (this.isFeedbackDevice(device)) {
+      this.feedbackValues.set(bindingKey(null, channel, 'cc', mapping.binding.number), data);
+    }
+    this.controlValue(mapping, (data / 0x3fff) * 127);
+    return true;
+  }
+
+  /** Moves a CC's target by the steps of a relative encoder, or to where the CC is. */
+  private controlCc(mapping: MidiMapping, value: number) {
+    const steps = relativeSteps(mapping.valueMode ?? 'absolute', value);
+    if (steps === null) {
+      this.controlValue(mapping, value);
+      return;
+    }
+    const key = keyOf(mapping);
+    const current = (this.caught.has(key) ? this.sentValues.get(key) : undefined)
+      ?? this.targetValues.get(mapping.target) ?? 0;
+    const next = Math.max(0, Math.min(127, current + steps));
+    this.sentValues.set(key, next);
+    this.caught.add(key);
+    this.dispatchEvent(new CustomEvent<MidiControlMessage>('control', {
+      detail: { target: mapping.target, kind: 'cc', value: next, mapping },
+    }));
+  }
+
+  /** Moves a target to an absolute value, once a pickup control has caught it. */
+  private controlValue(mapping: MidiMapping, value: number) {
+    if (mapping.pickup && !this.pickUp(mapping, value)) return;
+    this.dispatchEvent(new CustomEvent<MidiControlMessage>('control', {
+      detail: { target: mapping.target, kind: 'cc', value, mapping },
+    }));
+  }
+
+  /** Whether a pickup control has reached its target's value, or passed it since it last moved. */
+  private pickUp(mapping: MidiMapping, value: number) {
+    const { target } = mapping;
+    const key = keyOf(mapping);
+    const previous = this.sentValues.get(key);
+    this.sentValues.set(key, value);
+    const current = this.targetValues.get(target);
+    if (this.caught.has(key) || current === undefined) return true;
+
+    const passed = previous !== undefined && (previous - current) * (value - current) <= 0;
+    if (!passed && Math.abs(value - current) > this.tolerance(target)) return false;
+    this.caught.add(key);
+    return true;
+  }
+
+  private tolerance(target: string) {
+    return Math.max(PICKUP_TOLERANCE, this.targetSteps.get(target) ?? 0);
+  }
+
+  private removeMapping(key: string) {
+    const mapping = this.mappings.get(key);
+    if (!mapping) return;
+    const { device, channel, type, number } = mapping.binding;
+    this.mappings.delete(key);
+    this.routes.delete(bindingKey(device, channel, type, number));
+    this.sentValues.delete(key);
+    this.caught.delete(key);
+  }
+
+  private isFeedbackDevice(device: string) {
+    return this.getFeedbackOutput()?.name === device;
+  }
+
+  private getFeedbackOutput(): MIDIOutput | null {
+    if (!this.feedbackOutputId) return null;
+    const output = this.getOutput(this.feedbackOutputId);
+    return output?.state === 'connected' ? output : null;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MidiBinding, MidiMapping } from '../types';
+import { MIDI_VALUE_MODES } from './MidiDispatcher';
+
+const STORAGE_KEY = 'promptdj-midi-mappings';
+
+function isBinding(value: unknown): value is MidiBinding {
+  const binding = value as Partial<MidiBinding> | null;
+  return typeof binding === 'object' && binding !== null
+    && (binding.device === null || typeof binding.device === 'string')
+    && (binding.channel === null
+      || (typeof binding.channel === 'number' && Number.isInteger(binding.channel) && binding.channel >= 0 && binding.channel < 16))
+    && (binding.type === 'cc' || binding.type === 'note' || binding.type === 'nrpn')
+    && typeof binding.number === 'number' && Number.isInteger(binding.number) && binding.number >= 0;
+}
+
+/** A saved mapping, with a binding and options this version understands. */
+function isMapping(value: unknown): value is MidiMapping {
+  const mapping = value as Partial<MidiMapping> | null;
+  return typeof mapping === 'object' && mapping !== null
+    && typeof mapping.target === 'string'
+    && isBinding(mapping.binding)
+    && (mapping.padMode === undefined || mapping.padMode === 'momentary' || mapping.padMode === 'toggle')
+    && (mapping.valueMode === undefined || MIDI_VALUE_MODES.includes(mapping.valueMode))
+    && (mapping.pickup === undefined || typeof mapping.pickup === 'boolean');
+}
+
+/** The mappings learned on each MIDI device, by device name, persisted to localStorage. */
+export class MidiProfileStore {
+  private profiles: Record<string, MidiMapping[]>;
+
+  constructor() {
+    this.profiles = this.load();
+  }
+
+  get(device: string): MidiMapping[] | null {
+    return this.profiles[device] ?? null;
+  }
+
+  get devices(): string[] {
+    return Object.keys(this.profiles);
+  }
+
+  save(device: string, mappings: MidiMapping[]) {
+    if (JSON.stringify(this.profiles[device]) === JSON.stringify(mappings)) return;
+    this.profiles[device] = mappings;
+    this.persist();
+  }
+
+  toJSON(): string {
+    return JSON.stringify({ version: 1, profiles: this.profiles }, null, 2);
+  }
+
+  /** Adds the profiles in an exported file, replacing those for the same devices. */
+  import(json: string): string[] {
+    const parsed = JSON.parse(json);
+    if (!parsed?.profiles || typeof parsed.profiles !== 'object') {
+      throw new Error('midiProfileImportError');
+    }
+    const imported = this.normalize(parsed.profiles);
+    this.profiles = { ...this.profiles, ...imported };
+    this.persist();
+    return Object.keys(imported);
+  }
+
+  private load(): Record<string, MidiMapping[]> {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) return this.normalize(JSON.parse(stored));
+    } catch (e) {
+      console.warn('Could not load saved MIDI mappings', e);
+    }
+    return {};
+  }
+
+  private normalize(profiles: Record<string, unknown>): Record<string, MidiMapping[]> {
+    const normalized: Record<string, MidiMapping[]> = {};
+    for (const [device, mappings] of Object.entries(profiles)) {
+      if (Array.isArray(mappings)) normalized[device] = mappings.filter(isMapping);
+    }
+    return normalized;
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.profiles));
+    } catch (e) {
+      console.warn('Could not save MIDI mappings', e);
+    }
+  }
+}
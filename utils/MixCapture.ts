@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Frames per message from the worklet, 100 ms at 48 kHz. */
+const BLOCK_FRAMES = 4800;
+
+/**
+ * Posts the input in blocks of BLOCK_FRAMES planar frames while recording.
+ * Kept as source text so the module can be loaded from a blob URL without a
+ * separate build step.
+ */
+const PROCESSOR_SOURCE = `
+class MixCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.numChannels = options.processorOptions.numChannels;
+    this.recording = false;
+    this.fill = 0;
+    this.block = this.newBlock();
+    this.port.onmessage = (e) => {
+      this.recording = e.data.recording;
+      if (!this.recording) this.post();
+    };
+  }
+
+  newBlock() {
+    return Array.from({ length: this.numChannels }, () => new Float32Array(${BLOCK_FRAMES}));
+  }
+
+  post() {
+    if (this.fill === 0) return;
+    const channels = this.block.map((samples) => samples.slice(0, this.fill));
+    this.port.postMessage(channels, channels.map((samples) => samples.buffer));
+    this.block = this.newBlock();
+    this.fill = 0;
+  }
+
+  process(inputs) {
+    if (!this.recording) return true;
+    const input = inputs[0];
+    const frames = input.length > 0 ? input[0].length : 128;
+    for (let i = 0; i < frames; i++) {
+      for (let ch = 0; ch < this.numChannels; ch++) {
+        // Unconnected or mono inputs are silence or copied to every channel.
+        const source = input[ch] ?? input[0];
+        this.block[ch][this.fill] = source ? source[i] : 0;
+      }
+      if (++this.fill === ${BLOCK_FRAMES}) this.post();
+    }
+    return true;
+  }
+}
+registerProcessor('mix-capture', MixCaptureProcessor);
+`;
+
+/** A captured block as interleaved 16-bit bytes and the planar floats they came from. */
+export interface CapturedAudio {
+  bytes: Uint8Array;
+  channels: Float32Array[];
+}
+
+/**
+ * Records whatever reaches `input` as it is heard, for sources that are
+ * mixed in the audio graph rather than arriving as PCM. Each block is
+ * dispatched as a 'pcm' event.
+ */
+export class MixCapture extends EventTarget {
+  readonly input: AudioWorkletNode;
+
+  private constructor(context: BaseAudioContext, private readonly numChannels: number) {
+    super();
+    // Without outputs the node is pulled even though nothing plays it.
+    this.input = new AudioWorkletNode(context, 'mix-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: numChannels,
+      channelCountMode: 'explicit',
+      processorOptions: { numChannels },
+    });
+    this.input.port.onmessage = (e: MessageEvent<Float32Array[]>) => this.handleBlock(e.data);
+  }
+
+  static async create(context: BaseAudioContext, numChannels: number): Promise<MixCapture> {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'text/javascript' }));
+    try {
+      await context.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    return new MixCapture(context, numChannels);
+  }
+
+  start() {
+    this.input.port.postMessage({ recording: true });
+  }
+
+  /** Stops recording; the partial block still in the worklet is posted. */
+  stop() {
+    this.input.port.postMessage({ recording: false });
+  }
+
+  private handleBlock(channels: Float32Array[]) {
+    const frames = channels[0].length;
+    const pcm = new Int16Array(frames * this.numChannels);
+    for (let i = 0; i < frames; i++) {
+      for (let ch = 0; ch < this.numChannels; ch++) {
+        pcm[i * this.numChannels + ch] = Math.round(Math.max(-1, Math.min(1, channels[ch][i])) * 0x7fff);
+      }
+    }
+    this.dispatchEvent(new CustomEvent<CapturedAudio>('pcm', {
+      detail: { bytes: new Uint8Array(pcm.buffer), channels },
+    }));
+  }
+}
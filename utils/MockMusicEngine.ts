@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { LiveMusicGenerationConfig, WeightedPrompt } from '@google/genai';
+import type { MusicEngine, MusicEngineCallbacks, MusicEngineSession } from './MusicEngine';
+import { encode } from './audio';
+
+const SAMPLE_RATE = 48000;
+const NUM_CHANNELS = 2;
+const CHUNK_SECONDS = 1;
+/** Chunks sent right away on play, like the service filling the buffer. */
+const PREROLL_CHUNKS = 2;
+
+/** A minor pentatonic over two octaves from A3. */
+const PENTATONIC = [0, 3, 5, 7, 10, 12, 15, 17, 19, 22].map((s) => 220 * 2 ** (s / 12));
+
+function hash(text: string) {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 16777619);
+  }
+  return h >>> 0;
+}
+
+/** Small deterministic PRNG so a seed always gives the same hats. */
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Synthesizes simple PCM offline, so the app runs without the real service.
+ * Every active prompt becomes a voice whose pitch comes from its text and
+ * whose level follows its weight. Config BPM, density, brightness and the
+ * bass/drum mutes shape the pattern. Prompts containing the word "filtered"
+ * are rejected, to exercise the filtered-prompt UI.
+ */
+class MockMusicSession implements MusicEngineSession {
+  private prompts: WeightedPrompt[] = [];
+  private config: LiveMusicGenerationConfig = {};
+  private frame = 0;
+  private random = mulberry32(0);
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly callbacks: MusicEngineCallbacks) {}
+
+  async setWeightedPrompts(prompts: WeightedPrompt[]) {
+    this.prompts = prompts.filter((p) => {
+      if (!/\bfiltered\b/i.test(p.text ?? '')) return true;
+      this.callbacks.onFilteredPrompt({ text: p.text, filteredReason: 'Rejected by the mock engine.' });
+      return false;
+    });
+  }
+
+  async setMusicGenerationConfig(config: LiveMusicGenerationConfig) {
+    this.config = config;
+    this.random = mulberry32(config.seed ?? 0);
+  }
+
+  play() {
+    if (this.intervalId !== null) return;
+    for (let i = 0; i < PREROLL_CHUNKS; i++) this.emitChunk();
+    this.intervalId = setInterval(() => this.emitChunk(), CHUNK_SECONDS * 1000);
+  }
+
+  pause() {
+    if (this.intervalId !== null) clearInterval(this.intervalId);
+    this.intervalId = null;
+  }
+
+  stop() {
+    this.pause();
+    this.frame = 0;
+  }
+
+  resetContext() {
+    this.frame = 0;
+  }
+
+  close() {
+    this.pause();
+    // Like a websocket, report the close asynchronously.
+    setTimeout(() => this.callbacks.onClose(), 0);
+  }
+
+  private emitChunk() {
+    const data = encode(new Uint8Array(this.synthesize().buffer));
+    this.callbacks.onAudioChunks([{ data, mimeType: `audio/l16;rate=${SAMPLE_RATE};channels=${NUM_CHANNELS}` }]);
+  }
+
+  private synthesize(): Int16Array {
+    const frames = SAMPLE_RATE * CHUNK_SECONDS;
+    const out = new Int16Array(frames * NUM_CHANNELS);
+    const bpm = this.config.bpm ?? 120;
+    const density = this.config.density ?? 0.5;
+    const brightness = this.config.brightness ?? 0.5;
+    const beatFrames = (60 / bpm) * SAMPLE_RATE;
+    const totalWeight = this.prompts.reduce((acc, p) => acc + (p.weight ?? 0), 0) || 1;
+
+    const voices = this.prompts.map((p) => {
+      const h = hash(p.text ?? '');
+      return {
+        freq: PENTATONIC[h % PENTATONIC.length],
+        gain: (0.2 * (p.weight ?? 0)) / totalWeight,
+        plucked: (h >>> 8) % 2 === 0,
+        pan: ((h >>> 16) % 100) / 100,
+      };
+    });
+
+    let hatGain = 0;
+    let lastEighth = -1;
+    for (let i = 0; i < frames; i++) {
+      const n = this.frame + i;
+      const t = n / SAMPLE_RATE;
+      const beatPhase = (n % beatFrames) / beatFrames;
+      const beat = Math.floor(n / beatFrames);
+      let left = 0;
+      let right = 0;
+
+      for (const v of voices) {
+        const env = v.plucked ? Math.exp(-6 * beatPhase) : 1;
+        const tone = Math.sin(2 * Math.PI * v.freq * t)
+          + brightness * 0.5 * Math.sin(4 * Math.PI * v.freq * t)
+          + brightness * 0.25 * Math.sin(6 * Math.PI * v.freq * t);
+        const s = tone * env * v.gain;
+        left += s * (1 - v.pan);
+        right += s * v.pan;
+      }
+
+      if (!this.config.muteBass && beat % 2 === 0) {
+        const s = 0.15 * Math.sin(2 * Math.PI * 55 * t) * Math.exp(-3 * beatPhase);
+        left += s;
+        right += s;
+      }
+
+      if (!this.config.muteDrums) {
+        const beatTime = beatPhase * (60 / bpm);
+        const kick = 0.3 * Math.sin(2 * Math.PI * 60 * beatTime) * Math.exp(-12 * beatTime);
+        // Eighth-note hats, more of them with higher density.
+        const eighth = Math.floor(n / (beatFrames / 2));
+        if (eighth !== lastEighth) {
+          lastEighth = eighth;
+          hatGain = this.random() < density ? 0.08 : 0;
+        }
+        const eighthPhase = (n % (beatFrames / 2)) / (beatFrames / 2);
+        const hat = hatGain * (this.random() * 2 - 1) * Math.exp(-40 * eighthPhase);
+        left += kick + hat;
+        right += kick + hat;
+      }
+
+      out[i * 2] = Math.max(-1, Math.min(1, left)) * 32767;
+      out[i * 2 + 1] = Math.max(-1, Math.min(1, right)) * 32767;
+    }
+    this.frame += frames;
+    return out;
+  }
+}
+
+/** An offline stand-in for Lyria, for development and testing. */
+export class MockMusicEngine implements MusicEngine {
+  async connect(callbacks: MusicEngineCallbacks): Promise<MusicEngineSession> {
+    const session = new MockMusicSession(callbacks);
+    setTimeout(() => callbacks.onSetupComplete(), 0);
+    return session;
+  }
+}
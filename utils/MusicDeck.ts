@@ -0,0 +1,322 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { BufferStats, PlaybackState, Prompt } from '../types';
+import type { AudioChunk, LiveMusicFilteredPrompt, LiveMusicGenerationConfig } from '@google/genai';
+import type { MusicEngine, MusicEngineSession } from './MusicEngine';
+import { throttle } from './throttle';
+import { DeckPlayer, type DeckAudio } from './DeckPlayer';
+
+/** Config keys the model only picks up after its context is reset. */
+const CONTEXT_RESET_KEYS: (keyof LiveMusicGenerationConfig)[] = ['bpm', 'scale'];
+
+/** Reconnect backoff: 1s, 2s, 4s... capped at 16s, giving up after 6 tries. */
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+
+/**
+ * Jitter buffer: grows by half after each underrun and shrinks a step after
+ * a stretch of on-time delivery, within these bounds (seconds).
+ */
+const MIN_BUFFER_TIME = 1;
+const MAX_BUFFER_TIME = 6;
+const BUFFER_GROWTH = 1.5;
+const BUFFER_SHRINK_STEP = 0.25;
+const STABLE_PERIOD = 20;
+
+export type { DeckAudio };
+
+/**
+ * One live music session and its playback: keeps the connection up, sends
+ * prompts and config, and plays the incoming audio through a jitter buffer
+ * into `destination`. Each chunk is also dispatched as 'audio'.
+ */
+export class MusicDeck extends EventTarget {
+
+  private session: MusicEngineSession | null = null;
+  private sessionPromise: Promise<MusicEngineSession> | null = null;
+
+  private connectionError = true;
+  private connectionId = 0;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private filteredPrompts = new Set<string>();
+  private bufferTime = 2;
+  private underruns = 0;
+  private stableSince = 0;
+
+  /** Loaded on first play; null until then. */
+  private player: DeckPlayer | null = null;
+  private playerPromise: Promise<DeckPlayer> | null = null;
+  private playbackState: PlaybackState = 'stopped';
+
+  private prompts = new Map<string, Prompt>();
+  private generationConfig: LiveMusicGenerationConfig = {};
+  private appliedConfig: LiveMusicGenerationConfig | null = null;
+
+  constructor(
+    private readonly engine: MusicEngine,
+    private readonly audioContext: AudioContext,
+    private readonly destination: AudioNode,
+    private readonly numChannels: number,
+  ) {
+    super();
+  }
+
+  get state() {
+    return this.playbackState;
+  }
+
+  /** Seconds of audio queued ahead of the playhead. */
+  get bufferedSeconds() {
+    return this.player?.bufferedSeconds ?? 0;
+  }
+
+  private getPlayer(): Promise<DeckPlayer> {
+    if (!this.playerPromise) {
+      this.playerPromise = DeckPlayer.create(this.audioContext, this.numChannels).then((player) => {
+        player.addEventListener('audio', (e: Event) => {
+          this.dispatchEvent(new CustomEvent<DeckAudio>('audio', { detail: (e as CustomEvent<DeckAudio>).detail }));
+        });
+        player.addEventListener('started', () => this.handleStarted());
+        player.addEventListener('underrun', () => this.handleUnderrun());
+        player.output.connect(this.destination);
+        this.player = player;
+        return player;
+      });
+    }
+    return this.playerPromise;
+  }
+
+  private getSession(): Promise<MusicEngineSession> {
+    if (!this.sessionPromise) this.sessionPromise = this.connect();
+    return this.sessionPromise;
+  }
+
+  private async connect(): Promise<MusicEngineSession> {
+    // Callbacks of a session that has been replaced by a reconnect are ignored.
+    const connectionId = ++this.connectionId;
+    this.sessionPromise = this.engine.connect({
+      onSetupComplete: () => {
+        if (connectionId !== this.connectionId) return;
+        this.connectionError = false;
+      },
+      onFilteredPrompt: (filteredPrompt: LiveMusicFilteredPrompt) => {
+        if (connectionId !== this.connectionId) return;
+        this.filteredPrompts = new Set([...this.filteredPrompts, filteredPrompt.text!])
+        this.dispatchEvent(new CustomEvent<LiveMusicFilteredPrompt>('filtered-prompt', { detail: filteredPrompt }));
+      },
+      onAudioChunks: (audioChunks: AudioChunk[]) => {
+        if (connectionId !== this.connectionId) return;
+        this.processAudioChunks(audioChunks);
+      },
+      onError: () => {
+        if (connectionId !== this.connectionId) return;
+        this.handleConnectionLost();
+      },
+      onClose: () => {
+        if (connectionId !== this.connectionId) return;
+        this.handleConnectionLost();
+      },
+    });
+    return this.sessionPromise;
+  }
+
+  /**
+   * Reconnects with exponential backoff while the user expects audio, so a
+   * dropped websocket doesn't end the set. The recording is left untouched.
+   */
+  private handleConnectionLost() {
+    this.connectionError = true;
+    // onerror is usually followed by onclose for the same drop.
+    if (this.reconnectTimer !== null) return;
+
+    const wantsAudio = this.playbackState === 'playing'
+      || this.playbackState === 'loading'
+      || this.playbackState === 'reconnecting';
+    if (!wantsAudio || this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+      this.stop();
+      this.dispatchEvent(new CustomEvent('error', { detail: 'connectionError' }));
+      return;
+    }
+
+    try {
+      this.session?.close();
+    } catch (e) {
+      // The socket is already gone.
+    }
+    this.session = null;
+    this.sessionPromise = null;
+    this.appliedConfig = null;
+
+    const delayMs = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempt, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempt++;
+    this.setPlaybackState('reconnecting');
+    this.dispatchEvent(new CustomEvent('reconnecting', { detail: { attempt: this.reconnectAttempt, delayMs } }));
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnect();
+    }, delayMs);
+  }
+
+  private async reconnect() {
+    try {
+      const session = await this.getSession();
+      if (this.playbackState !== 'reconnecting') return;
+      this.session = session;
+      await this.session.setWeightedPrompts(this.activePrompts);
+      await this.applyGenerationConfig();
+      this.session.play();
+    } catch (e) {
+      console.error('Reconnect failed', e);
+      this.handleConnectionLost();
+    }
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimer !== null) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.reconnectAttempt = 0;
+  }
+
+  private setPlaybackState(state: PlaybackState) {
+    this.playbackState = state;
+    this.dispatchEvent(new CustomEvent('playback-state-changed', { detail: state }));
+  }
+
+  private processAudioChunks(audioChunks: AudioChunk[]) {
+    if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
+    // Audio is flowing again, so the next drop starts a fresh backoff.
+    this.reconnectAttempt = 0;
+    if (!this.player) return;
+    this.player.push(audioChunks[0].data!);
+    // A reconnect that was covered by the buffer never stopped the sound.
+    if (this.playbackState === 'reconnecting' && this.player.isPlaying) this.setPlaybackState('playing');
+
+    const now = this.audioContext.currentTime;
+    if (this.playbackState === 'playing' && now - this.stableSince > STABLE_PERIOD) {
+      this.bufferTime = Math.max(this.bufferTime - BUFFER_SHRINK_STEP, MIN_BUFFER_TIME);
+      this.player.setTarget(this.bufferTime);
+      this.stableSince = now;
+    }
+    this.dispatchEvent(new CustomEvent<BufferStats>('buffer-stats', {
+      detail: {
+        underruns: this.underruns,
+        bufferTime: this.bufferTime,
+        bufferedSeconds: this.player.bufferedSeconds,
+      },
+    }));
+  }
+
+  private handleStarted() {
+    this.stableSince = this.audioContext.currentTime;
+    if (this.playbackState === 'loading' || this.playbackState === 'reconnecting') {
+      this.setPlaybackState('playing');
+    }
+  }
+
+  /** The buffer ran dry: wait for it to fill a little deeper before resuming. */
+  private handleUnderrun() {
+    if (this.playbackState !== 'playing') return;
+    this.underruns++;
+    this.bufferTime = Math.min(this.bufferTime * BUFFER_GROWTH, MAX_BUFFER_TIME);
+    this.player?.setTarget(this.bufferTime);
+    this.setPlaybackState('loading');
+  }
+
+  public get activePrompts() {
+    return Array.from(this.prompts.values())
+      .filter((p) => {
+        return !this.filteredPrompts.has(p.text) && p.weight !== 0;
+      })
+  }
+
+  /** Sends the prompts, dispatching 'prompts-applied' with the ones that play. */
+  public readonly setWeightedPrompts = throttle(async (prompts: Map<string, Prompt>) => {
+    this.prompts = prompts;
+
+    if (this.activePrompts.length === 0) {
+      this.dispatchEvent(new CustomEvent('error', { detail: 'noActivePromptError' }));
+      this.pause();
+      return;
+    }
+
+    this.dispatchEvent(new CustomEvent<Prompt[]>('prompts-applied', { detail: this.activePrompts }));
+
+    // store the prompts to set later if we haven't connected yet
+    // there should be a user interaction before calling setWeightedPrompts
+    if (!this.session) return;
+
+    try {
+      await this.session.setWeightedPrompts(this.activePrompts);
+    } catch (e: any) {
+      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
+      this.pause();
+    }
+  }, 200);
+
+  public readonly setMusicGenerationConfig = throttle(async (config: LiveMusicGenerationConfig) => {
+    this.generationConfig = config;
+
+    // store the config to apply once the session is connected
+    if (!this.session) return;
+
+    await this.applyGenerationConfig();
+  }, 200);
+
+  /**
+   * Sends the stored config to the session. Changing BPM or scale resets the
+   * model context, which is audible, so it is only done when they changed.
+   */
+  private async applyGenerationConfig() {
+    if (!this.session) return;
+    const previous = this.appliedConfig;
+    const config = { ...this.generationConfig };
+    try {
+      await this.session.setMusicGenerationConfig(config);
+      this.appliedConfig = config;
+      if (previous && CONTEXT_RESET_KEYS.some((key) => previous[key] !== config[key])) {
+        this.session.resetContext();
+      }
+    } catch (e: any) {
+      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
+    }
+  }
+
+  public async play() {
+    this.underruns = 0;
+    this.setPlaybackState('loading');
+    const player = await this.getPlayer();
+    player.setTarget(this.bufferTime);
+    this.session = await this.getSession();
+    await this.setWeightedPrompts(this.prompts);
+    await this.applyGenerationConfig();
+    this.session.play();
+  }
+
+  public pause() {
+    this.cancelReconnect();
+    if (this.session) this.session.pause();
+    this.setPlaybackState('paused');
+    this.player?.flush();
+  }
+
+  public stop() {
+    this.cancelReconnect();
+    if (this.session) this.session.stop();
+    this.setPlaybackState('stopped');
+    this.player?.flush();
+    this.session = null;
+    this.sessionPromise = null;
+    this.appliedConfig = null;
+  }
+
+  /** Stops and lets go of the player, for a deck that is being removed. */
+  public dispose() {
+    this.stop();
+    this.player?.dispose();
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AudioChunk, LiveMusicFilteredPrompt, LiveMusicGenerationConfig, WeightedPrompt } from '@google/genai';
+
+/** What a music engine reports back about a connected session. */
+export interface MusicEngineCallbacks {
+  onSetupComplete(): void;
+  onAudioChunks(chunks: AudioChunk[]): void;
+  onFilteredPrompt(prompt: LiveMusicFilteredPrompt): void;
+  onError(error: unknown): void;
+  onClose(): void;
+}
+
+/** A live generation session. Audio is 16-bit PCM, 48 kHz stereo, base64 encoded. */
+export interface MusicEngineSession {
+  setWeightedPrompts(prompts: WeightedPrompt[]): Promise<void>;
+  setMusicGenerationConfig(config: LiveMusicGenerationConfig): Promise<void>;
+  play(): void;
+  pause(): void;
+  stop(): void;
+  resetContext(): void;
+  close(): void;
+}
+
+/** A source of generated music, e.g. the Lyria service or a local stand-in. */
+export interface MusicEngine {
+  connect(callbacks: MusicEngineCallbacks): Promise<MusicEngineSession>;
+}
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExportEncoder } from './ExportEncoder';
+
+/** Opus always decodes at 48 kHz; granule positions count in these samples. */
+const OPUS_RATE = 48000;
+/** The encoder delay libopus reports, used when the browser gives no header. */
+const DEFAULT_PRE_SKIP = 312;
+/** Packets are grouped into pages of about this size... */
+const PAGE_BYTES = 4096;
+/** ...or this many packets, which keeps the segment table under 255. */
+const PAGE_PACKETS = 50;
+/** Encodes queued in the browser before we wait for it to catch up. */
+const MAX_QUEUE = 8;
+
+const CRC32_TABLE = Uint32Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte << 24;
+  for (let i = 0; i < 8; i++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  return crc >>> 0;
+});
+
+function oggCrc(bytes: Uint8Array) {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) ^ CRC32_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  return crc;
+}
+
+/** Ogg page header flags. */
+const BEGINNING_OF_STREAM = 2;
+const END_OF_STREAM = 4;
+
+/**
+ * Encodes Opus with WebCodecs and wraps the packets in an Ogg stream, so the
+ * result plays anywhere an .opus file does.
+ */
+export class OggOpusEncoder implements ExportEncoder {
+  private readonly encoder: AudioEncoder;
+  private readonly pages: Uint8Array[] = [];
+  private readonly serial = Math.floor(Math.random() * 2 ** 32);
+  private sequence = 0;
+  private packets: Uint8Array[] = [];
+  private packetBytes = 0;
+  private opusHead: Uint8Array | null = null;
+  /** Granule position at the end of the packets written so far, counting the pre-skip. */
+  private granule = 0;
+  private inputFrames = 0;
+  private error: unknown = null;
+
+  constructor(private readonly sampleRate: number, private readonly numChannels: number, bitrate: number) {
+    this.encoder = new AudioEncoder({
+      output: (chunk, metadata) => this.handleChunk(chunk, metadata),
+      error: (e) => {
+        this.error = e;
+      },
+    });
+    this.encoder.configure({ codec: 'opus', sampleRate, numberOfChannels: numChannels, bitrate: bitrate * 1000 });
+  }
+
+  async encode(channels: Float32Array[]) {
+    if (this.error) throw this.error;
+    const frames = channels[0].length;
+    if (frames === 0) return;
+    const planar = new Float32Array(frames * this.numChannels);
+    channels.forEach((samples, ch) => planar.set(samples, ch * frames));
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: this.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: this.numChannels,
+      timestamp: Math.round((this.inputFrames / this.sampleRate) * 1e6),
+      data: planar,
+    });
+    this.encoder.encode(data);
+    data.close();
+    this.inputFrames += frames;
+    while (this.encoder.encodeQueueSize > MAX_QUEUE) {
+      await new Promise((resolve) => this.encoder.addEventListener('dequeue', resolve, { once: true }));
+    }
+  }
+
+  async finish(): Promise<Blob> {
+    await this.encoder.flush();
+    this.encoder.close();
+    if (this.error) throw this.error;
+    this.writeHeaders();
+    // The last page's granule marks where the real audio ends, trimming padding.
+    this.granule = this.preSkip + Math.round((this.inputFrames * OPUS_RATE) / this.sampleRate);
+    this.writePage(this.packets, this.granule, END_OF_STREAM);
+    return new Blob(this.pages, { type: 'audio/ogg; codecs=opus' });
+  }
+
+  private get preSkip() {
+    return this.opusHead ? new DataView(this.opusHead.buffer).getUint16(10, true) : DEFAULT_PRE_SKIP;
+  }
+
+  private handleChunk(chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata) {
+    const description = metadata?.decoderConfig?.description;
+    if (description && !this.opusHead) {
+      const bytes = description instanceof ArrayBuffer
+        ? new Uint8Array(description)
+        : new Uint8Array(description.buffer, description.byteOffset, description.byteLength);
+      if (String.fromCharCode(...bytes.slice(0, 8)) === 'OpusHead') this.opusHead = bytes.slice();
+    }
+    const packet = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(packet);
+    this.writeHeaders();
+    this.granule += Math.round(((chunk.duration ?? 0) * OPUS_RATE) / 1e6);
+    this.packets.push(packet);
+    this.packetBytes += packet.length;
+    if (this.packetBytes >= PAGE_BYTES || this.packets.length >= PAGE_PACKETS) {
+      this.writePage(this.packets, this.granule);
+      this.packets = [];
+      this.packetBytes = 0;
+    }
+  }
+
+  /** Writes OpusHead and OpusTags before the first audio page. */
+  private writeHeaders() {
+    if (this.sequence > 0) return;
+    if (!this.opusHead) {
+      const head = new DataView(new ArrayBuffer(19));
+      'OpusHead'.split('').forEach((c, i) => head.setUint8(i, c.charCodeAt(0)));
+      head.setUint8(8, 1); // Version
+      head.setUint8(9, this.numChannels);
+      head.setUint16(10, DEFAULT_PRE_SKIP, true);
+      head.setUint32(12, this.sampleRate, true);
+      head.setInt16(16, 0, true); // Output gain
+      head.setUint8(18, 0); // Mono or stereo mapping
+      this.opusHead = new Uint8Array(head.buffer);
+    }
+    const vendor = new TextEncoder().encode('PromptDJ MIDI');
+    const tags = new DataView(new ArrayBuffer(8 + 4 + vendor.length + 4));
+    'OpusTags'.split('').forEach((c, i) => tags.setUint8(i, c.charCodeAt(0)));
+    tags.setUint32(8, vendor.length, true);
+    new Uint8Array(tags.buffer).set(vendor, 12);
+    tags.setUint32(12 + vendor.length, 0, true); // No comments
+
+    this.writePage([this.opusHead], 0, BEGINNING_OF_STREAM);
+    this.writePage([new Uint8Array(tags.buffer)], 0);
+    // Audio pages count from the pre-skip, which decoders drop before playing.
+    this.granule = this.preSkip;
+  }
+
+  private writePage(packets: Uint8Array[], granule: number, flags = 0) {
+    const segments: number[] = [];
+    for (const packet of packets) {
+      for (let left = packet.length; ; left -= 255) {
+        segments.push(Math.min(left, 255));
+        if (left < 255) break;
+      }
+    }
+    const bodyLength = packets.reduce((acc, p) => acc + p.length, 0);
+    const page = new Uint8Array(27 + segments.length + bodyLength);
+    const view = new DataView(page.buffer);
+    page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+    view.setUint8(4, 0); // Version
+    view.setUint8(5, flags);
+    view.setUint32(6, granule % 2 ** 32, true);
+    view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+    view.setUint32(14, this.serial, true);
+    view.setUint32(18, this.sequence++, true);
+    view.setUint8(26, segments.length);
+    page.set(segments, 27);
+    let offset = 27 + segments.length;
+    for (const packet of packets) {
+      page.set(packet, offset);
+      offset += packet.length;
+    }
+    view.setUint32(22, oggCrc(page), true);
+    this.pages.push(page);
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt, TransitionCurve } from '../types';
+
+export interface TransitionFrame {
+  /** Current weight for each prompt in the target grid, by promptId. */
+  weights: Map<string, number>;
+  /** Prompts that are not in the target grid and are fading out. */
+  outgoing: Prompt[];
+}
+
+/** Mixes `from` into `to` at progress `t` (0..1) along the given curve. */
+export function mixWeight(from: number, to: number, t: number, curve: TransitionCurve) {
+  switch (curve) {
+    case 'linear':
+      return from + (to - from) * t;
+    case 'ease': {
+      const eased = 0.5 - Math.cos(t * Math.PI) / 2;
+      return from + (to - from) * eased;
+    }
+    case 'equal-power':
+      // Only the part that fades in or out follows the curve, so a weight
+      // that doesn't change holds steady instead of swelling mid-way.
+      return to >= from
+        ? from + (to - from) * Math.sin((t * Math.PI) / 2)
+        : to + (from - to) * Math.cos((t * Math.PI) / 2);
+  }
+}
+
+/** Interpolates prompt weights from one grid to another over time. */
+export class PromptTransition extends EventTarget {
+  private rafId: number | null = null;
+  private startTime = 0;
+  private durationMs = 0;
+  private curve: TransitionCurve = 'linear';
+  private fromWeights = new Map<string, number>();
+  private target = new Map<string, Prompt>();
+  private fading: Prompt[] = [];
+  private lastOutgoing: Prompt[] = [];
+  private readonly detached = new Set<string>();
+
+  constructor() {
+    super();
+    this.loop = this.loop.bind(this);
+  }
+
+  get isRunning() {
+    return this.rafId !== null;
+  }
+
+  /**
+   * Starts moving from `from` to `target`. Prompts are matched by text, so a
+   * prompt that stays on the grid glides from its old weight even if it moved
+   * to another slot, and prompts that leave the grid fade out.
+   */
+  start(from: Map<string, Prompt>, target: Map<string, Prompt>, durationMs: number, curve: TransitionCurve) {
+    const previous = [...from.values(), ...(this.isRunning ? this.lastOutgoing : [])];
+    this.cancel();
+
+    const weightByText = new Map<string, number>();
+    previous.forEach((p) => weightByText.set(p.text, p.weight));
+
+    const targetTexts = new Set([...target.values()].map((p) => p.text));
+    this.fromWeights = new Map();
+    target.forEach((p, id) => this.fromWeights.set(id, weightByText.get(p.text) ?? 0));
+    this.fading = previous
+      .filter((p) => !targetTexts.has(p.text) && p.weight > 0)
+      .map((p) => ({ ...p, promptId: `outgoing-${p.text}` }));
+    this.lastOutgoing = this.fading;
+
+    this.target = target;
+    this.durationMs = durationMs;
+    this.curve = curve;
+    this.startTime = performance.now();
+    this.loop();
+  }
+
+  /** Stops interpolating a prompt, e.g. because the user grabbed its knob. */
+  detach(promptId: string) {
+    this.detached.add(promptId);
+  }
+
+  cancel() {
+    if (this.rafId !== null) cancelAnimationFrame(this.rafId);
+    this.rafId = null;
+    this.detached.clear();
+  }
+
+  private loop() {
+    const elapsed = performance.now() - this.startTime;
+    const t = Math.min(1, elapsed / this.durationMs);
+
+    const weights = new Map<string, number>();
+    this.target.forEach((p, id) => {
+      if (this.detached.has(id)) return;
+      weights.set(id, mixWeight(this.fromWeights.get(id) ?? 0, p.weight, t, this.curve));
+    });
+    const outgoing = t < 1
+      ? this.fading.map((p) => ({ ...p, weight: mixWeight(p.weight, 0, t, this.curve) }))
+      : [];
+    this.lastOutgoing = outgoing;
+
+    this.dispatchEvent(new CustomEvent<TransitionFrame>('transition-frame', { detail: { weights, outgoing } }));
+
+    if (t < 1) {
+      this.rafId = requestAnimationFrame(this.loop);
+    } else {
+      this.rafId = null;
+      this.detached.clear();
+      this.dispatchEvent(new CustomEvent('transition-end'));
+    }
+  }
+}
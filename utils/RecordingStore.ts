@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+const DB_NAME = 'promptdj-midi-recording';
+const CHUNK_STORE = 'chunks';
+
+interface StoredChunk {
+  blob: Blob;
+  size: number;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Streams recorded PCM chunks into IndexedDB, so a long set neither lives in
+ * memory nor disappears when the tab is reloaded. Falls back to keeping the
+ * chunks in memory when IndexedDB is unavailable.
+ */
+export class RecordingStore {
+  /** Keep only the most recent minutes of audio, or everything when null. */
+  public limitMinutes: number | null = null;
+
+  private readonly db: Promise<IDBDatabase | null>;
+  private readonly memoryChunks: StoredChunk[] = [];
+  /** Keys and sizes of the stored chunks, oldest first, for rolling eviction. */
+  private index: { key: IDBValidKey; size: number }[] = [];
+  private totalBytes = 0;
+  /** Bytes appended but not written yet, so there is data as soon as a chunk arrives. */
+  private queuedBytes = 0;
+  /** Bytes dropped from the start by the rolling window. */
+  private evictedBytes = 0;
+  /** Writes are chained so chunks land in the order they were recorded. */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly sampleRate: number,
+    private readonly numChannels: number,
+  ) {
+    this.db = this.open();
+  }
+
+  get hasData() {
+    return this.totalBytes + this.queuedBytes > 0;
+  }
+
+  private get bytesPerSecond() {
+    return this.sampleRate * this.numChannels * 2;
+  }
+
+  /** Length of the kept audio, in seconds. */
+  get durationSeconds() {
+    return this.totalBytes / this.bytesPerSecond;
+  }
+
+  /** How far into the set the kept audio starts, in seconds. */
+  get startSeconds() {
+    return this.evictedBytes / this.bytesPerSecond;
+  }
+
+  /** Resolves once every chunk appended so far has been written. */
+  flush(): Promise<void> {
+    return this.enqueue(async () => {});
+  }
+
+  private async open(): Promise<IDBDatabase | null> {
+    if (!('indexedDB' in window)) return null;
+    try {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(CHUNK_STORE, { autoIncrement: true });
+      };
+      return await promisify(request);
+    } catch (e) {
+      console.warn('IndexedDB unavailable, recording to memory', e);
+      return null;
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task);
+    this.pending = result.catch((e) => console.error('Recording write failed', e));
+    return result;
+  }
+
+  /** Picks up a recording left behind by a previous page load. */
+  restore(): Promise<boolean> {
+    return this.enqueue(async () => {
+      const db = await this.db;
+      if (!db) return false;
+      const store = db.transaction(CHUNK_STORE).objectStore(CHUNK_STORE);
+      const [keys, chunks] = await Promise.all([
+        promisify(store.getAllKeys()),
+        promisify(store.getAll() as IDBRequest<StoredChunk[]>),
+      ]);
+      this.index = keys.map((key, i) => ({ key, size: chunks[i].size }));
+      this.totalBytes = this.index.reduce((acc, c) => acc + c.size, 0);
+      return this.hasData;
+    });
+  }
+
+  /** Discards the current recording to start a new one. */
+  reset(): Promise<void> {
+    return this.enqueue(async () => {
+      this.memoryChunks.length = 0;
+      this.index = [];
+      this.totalBytes = 0;
+      this.evictedBytes = 0;
+      const db = await this.db;
+      if (!db) return;
+      const tx = db.transaction(CHUNK_STORE, 'readwrite');
+      await promisify(tx.objectStore(CHUNK_STORE).clear());
+    });
+  }
+
+  append(bytes: Uint8Array): Promise<void> {
+    const chunk: StoredChunk = { blob: new Blob([bytes]), size: bytes.length };
+    this.queuedBytes += chunk.size;
+    return this.enqueue(async () => {
+      const db = await this.db;
+      try {
+        if (!db) {
+          this.memoryChunks.push(chunk);
+          this.index.push({ key: this.index.length, size: chunk.size });
+        } else {
+          const tx = db.transaction(CHUNK_STORE, 'readwrite');
+          const key = await promisify(tx.objectStore(CHUNK_STORE).add(chunk));
+          this.index.push({ key, size: chunk.size });
+        }
+        this.totalBytes += chunk.size;
+      } finally {
+        this.queuedBytes -= chunk.size;
+      }
+      await this.evict(db);
+    });
+  }
+
+  private async evict(db: IDBDatabase | null) {
+    if (this.limitMinutes === null) return;
+    const limitBytes = this.limitMinutes * 60 * this.bytesPerSecond;
+    const evicted: IDBValidKey[] = [];
+    while (this.totalBytes > limitBytes && this.index.length > 1) {
+      const oldest = this.index.shift()!;
+      this.totalBytes -= oldest.size;
+      this.evictedBytes += oldest.size;
+      evicted.push(oldest.key);
+    }
+    if (evicted.length === 0) return;
+    if (!db) {
+      this.memoryChunks.splice(0, evicted.length);
+      return;
+    }
+    const store = db.transaction(CHUNK_STORE, 'readwrite').objectStore(CHUNK_STORE);
+    await Promise.all(evicted.map((key) => promisify(store.delete(key))));
+  }
+
+  /**
+   * Returns the recorded PCM, without a header. The blob is assembled from
+   * the stored chunk blobs, which the browser keeps on disk, rather than one
+   * big copy.
+   */
+  getPcmBlob(): Promise<Blob | null> {
+    return this.enqueue(async () => {
+      if (!this.hasData) return null;
+      const db = await this.db;
+      let chunks = this.memoryChunks;
+      if (db) {
+        const store = db.transaction(CHUNK_STORE).objectStore(CHUNK_STORE);
+        chunks = await promisify(store.getAll() as IDBRequest<StoredChunk[]>);
+      }
+      return new Blob(chunks.map((c) => c.blob));
+    });
+  }
+}
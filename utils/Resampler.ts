@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Taps on each side of the output sample. */
+const HALF_TAPS = 16;
+/** Fractional positions the kernel is tabulated at. */
+const PHASES = 512;
+
+/**
+ * A streaming windowed-sinc resampler for planar audio. Blocks of any size go
+ * in and the converted audio comes out, with the filter state carried from
+ * one block to the next. When downsampling, the cutoff drops to the new
+ * Nyquist frequency so nothing aliases.
+ */
+export class Resampler {
+  private readonly step: number;
+  private readonly kernel: Float32Array;
+  /** Source samples still needed, per channel, starting at `bufferStart`. */
+  private buffers: Float32Array[];
+  private bufferStart = -HALF_TAPS;
+  /** Source position of the next output sample. */
+  private position = 0;
+  private inputLength = 0;
+
+  constructor(fromRate: number, toRate: number, numChannels: number) {
+    this.step = fromRate / toRate;
+    const cutoff = Math.min(1, toRate / fromRate);
+    this.kernel = new Float32Array((PHASES + 1) * HALF_TAPS * 2);
+    for (let phase = 0; phase <= PHASES; phase++) {
+      const frac = phase / PHASES;
+      for (let tap = 0; tap < HALF_TAPS * 2; tap++) {
+        const x = tap - HALF_TAPS + 1 - frac;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * cutoff * x) / (Math.PI * cutoff * x);
+        const window = 0.5 + 0.5 * Math.cos((Math.PI * x) / HALF_TAPS);
+        this.kernel[phase * HALF_TAPS * 2 + tap] = cutoff * sinc * window;
+      }
+    }
+    // Start with silence before the first sample, so the first output has history.
+    this.buffers = Array.from({ length: numChannels }, () => new Float32Array(HALF_TAPS));
+  }
+
+  get isPassthrough() {
+    return this.step === 1;
+  }
+
+  process(channels: Float32Array[]): Float32Array[] {
+    if (this.isPassthrough) return channels;
+    this.inputLength += channels[0].length;
+    this.buffers = this.buffers.map((buffer, ch) => {
+      const joined = new Float32Array(buffer.length + channels[ch].length);
+      joined.set(buffer);
+      joined.set(channels[ch], buffer.length);
+      return joined;
+    });
+    return this.drain();
+  }
+
+  /** Pushes out the samples still held back by the filter. */
+  flush(): Float32Array[] {
+    if (this.isPassthrough) return this.buffers.map(() => new Float32Array(0));
+    const end = this.inputLength;
+    this.buffers = this.buffers.map((buffer) => {
+      const padded = new Float32Array(buffer.length + HALF_TAPS);
+      padded.set(buffer);
+      return padded;
+    });
+    return this.drain(end);
+  }
+
+  private drain(end = Infinity): Float32Array[] {
+    const available = this.bufferStart + this.buffers[0].length;
+    const outputs: number[] = [];
+    // Output i needs source samples up to floor(position) + HALF_TAPS.
+    while (Math.floor(this.position) + HALF_TAPS < available && this.position < end) {
+      outputs.push(this.position);
+      this.position += this.step;
+    }
+
+    const result = this.buffers.map((buffer) => {
+      const out = new Float32Array(outputs.length);
+      outputs.forEach((pos, i) => {
+        const base = Math.floor(pos);
+        const kernelOffset = Math.round((pos - base) * PHASES) * HALF_TAPS * 2;
+        const first = base - HALF_TAPS + 1 - this.bufferStart;
+        let sum = 0;
+        for (let tap = 0; tap < HALF_TAPS * 2; tap++) {
+          sum += buffer[first + tap] * this.kernel[kernelOffset + tap];
+        }
+        out[i] = sum;
+      });
+      return out;
+    });
+
+    const keepFrom = Math.floor(this.position) - HALF_TAPS + 1;
+    const drop = Math.max(0, keepFrom - this.bufferStart);
+    this.buffers = this.buffers.map((buffer) => buffer.slice(drop));
+    this.bufferStart += drop;
+    return result;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt, Scene } from '../types';
+
+const STORAGE_KEY = 'promptdj-midi-scenes';
+export const SCENE_SLOT_COUNT = 8;
+
+function isPrompt(value: unknown): value is Prompt {
+  const prompt = value as Partial<Prompt> | null;
+  return typeof prompt === 'object' && prompt !== null
+    && typeof prompt.promptId === 'string'
+    && typeof prompt.text === 'string'
+    && typeof prompt.weight === 'number' && prompt.weight >= 0 && prompt.weight <= 2
+    && typeof prompt.cc === 'number'
+    && typeof prompt.color === 'string';
+}
+
+/** A scene as saved, with every prompt complete enough to go back on the grid. */
+function isScene(value: unknown): value is Scene {
+  const scene = value as Partial<Scene> | null;
+  return typeof scene === 'object' && scene !== null
+    && typeof scene.styleName === 'string'
+    && typeof scene.savedAt === 'number'
+    && Array.isArray(scene.prompts) && scene.prompts.every(isPrompt);
+}
+
+/** Numbered scene slots, persisted to localStorage. */
+export class SceneStore extends EventTarget {
+  private slots: (Scene | null)[];
+
+  constructor() {
+    super();
+    this.slots = this.load();
+  }
+
+  get scenes(): readonly (Scene | null)[] {
+    return [...this.slots];
+  }
+
+  get(slot: number): Scene | null {
+    return this.slots[slot] ?? null;
+  }
+
+  save(slot: number, prompts: Map<string, Prompt>, styleName: string) {
+    this.slots[slot] = {
+      styleName,
+      prompts: [...prompts.values()].map((p) => ({ ...p })),
+      savedAt: Date.now(),
+    };
+    this.persist();
+  }
+
+  clear(slot: number) {
+    this.slots[slot] = null;
+    this.persist();
+  }
+
+  toJSON(): string {
+    return JSON.stringify({ version: 1, scenes: this.slots }, null, 2);
+  }
+
+  /** Replaces all slots with the scenes in an exported file. */
+  import(json: string) {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed?.scenes)) {
+      throw new Error('sceneImportError');
+    }
+    this.slots = this.normalize(parsed.scenes);
+    this.persist();
+  }
+
+  private load(): (Scene | null)[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) return this.normalize(JSON.parse(stored));
+    } catch (e) {
+      console.warn('Could not load saved scenes', e);
+    }
+    return this.normalize([]);
+  }
+
+  private normalize(scenes: unknown[]): (Scene | null)[] {
+    return Array.from({ length: SCENE_SLOT_COUNT }, (_, i) =>
+      isScene(scenes[i]) ? scenes[i] : null,
+    );
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.slots));
+    } catch (e) {
+      console.warn('Could not save scenes', e);
+    }
+    this.dispatchEvent(new CustomEvent('scenes-changed'));
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { MusicGenerationMode, Scale } from '@google/genai';
+
+import type { SessionFile, TimelineEvent } from '../types';
+import { CROSSFADER_CURVES } from './crossfader';
+import { DEFAULT_MASTER_FX } from './MasterEffects';
+
+/** The ranges the model accepts for each numeric config field. */
+const CONFIG_RANGES: Record<string, [number, number]> = {
+  temperature: [0, 3],
+  topK: [1, 1000],
+  guidance: [0, 6],
+  bpm: [60, 200],
+  density: [0, 1],
+  brightness: [0, 1],
+};
+const CONFIG_TOGGLES = ['muteBass', 'muteDrums', 'onlyBassAndDrums'];
+const SCALES: unknown[] = Object.values(Scale);
+const GENERATION_MODES: unknown[] = Object.values(MusicGenerationMode);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPromptSnapshot(value: unknown) {
+  return isObject(value) && typeof value.text === 'string'
+    && typeof value.weight === 'number' && Number.isFinite(value.weight);
+}
+
+function isInRange(value: unknown, [min, max]: [number, number]) {
+  return typeof value === 'number' && value >= min && value <= max;
+}
+
+/** Whether every field of a config the model knows has a value it accepts; unset ones are fine. */
+function isGenerationConfig(value: unknown) {
+  return isObject(value)
+    && Object.entries(CONFIG_RANGES).every(([key, range]) => value[key] === undefined || isInRange(value[key], range))
+    && (value.seed === undefined || Number.isInteger(value.seed))
+    && CONFIG_TOGGLES.every((key) => value[key] === undefined || typeof value[key] === 'boolean')
+    && (value.scale === undefined || SCALES.includes(value.scale))
+    && (value.musicGenerationMode === undefined || GENERATION_MODES.includes(value.musicGenerationMode));
+}
+
+/** Whether an event has a time and everything its type needs to be applied. */
+function isTimelineEvent(value: unknown): value is TimelineEvent {
+  if (!isObject(value) || !Number.isFinite(value.time) || (value.time as number) < 0) return false;
+  switch (value.type) {
+    case 'prompts':
+      return Array.isArray(value.prompts) && value.prompts.every(isPromptSnapshot)
+        && (value.deck === undefined || value.deck === 'A' || value.deck === 'B');
+    case 'config':
+      return isGenerationConfig(value.config);
+    case 'fx': {
+      const fx = value.fx;
+      return isObject(fx) && Object.entries(DEFAULT_MASTER_FX)
+        .every(([key, fallback]) => typeof fx[key] === typeof fallback);
+    }
+    case 'crossfader': {
+      const crossfader = value.crossfader;
+      return isObject(crossfader) && Number.isFinite(crossfader.position)
+        && CROSSFADER_CURVES.some((curve) => curve === crossfader.curve);
+    }
+    default:
+      return false;
+  }
+}
+
+/** Checks that parsed JSON is a session file this version can replay. */
+export function parseSessionFile(json: string): SessionFile {
+  const parsed = JSON.parse(json);
+  if (parsed?.format !== 'promptdj-session' || parsed.version !== 1
+    || !Number.isFinite(parsed.duration) || parsed.duration <= 0
+    || !Array.isArray(parsed.events) || !parsed.events.every(isTimelineEvent)) {
+    throw new Error('sessionFileError');
+  }
+  return parsed as SessionFile;
+}
+
+/**
+ * Plays the events of a session file back on schedule. `lengthScale`
+ * stretches the timeline, e.g. 2 re-renders the set at twice its length.
+ * The clock only advances while `running` is set, so it follows playback.
+ */
+export class SessionReplay extends EventTarget {
+  private readonly events: TimelineEvent[];
+  private readonly duration: number;
+  private next = 0;
+  private elapsed = 0;
+  private lastTick = 0;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(session: SessionFile, lengthScale = 1) {
+    super();
+    this.events = [...session.events]
+      .sort((a, b) => a.time - b.time)
+      .map((e) => ({ ...e, time: e.time * lengthScale }));
+    this.duration = session.duration * lengthScale;
+    this.tick = this.tick.bind(this);
+  }
+
+  get position() {
+    return this.elapsed;
+  }
+
+  get length() {
+    return this.duration;
+  }
+
+  start() {
+    this.stop();
+    this.next = 0;
+    this.elapsed = 0;
+    this.lastTick = performance.now();
+    this.intervalId = setInterval(this.tick, 50);
+    this.tick();
+  }
+
+  stop() {
+    if (this.intervalId !== null) clearInterval(this.intervalId);
+    this.intervalId = null;
+  }
+
+  setRunning(running: boolean) {
+    this.running = running;
+    this.lastTick = performance.now();
+  }
+
+  private tick() {
+    const now = performance.now();
+    if (this.running) this.elapsed += (now - this.lastTick) / 1000;
+    this.lastTick = now;
+
+    // Events at time 0 set up the start state before playback begins.
+    while (this.next < this.events.length && this.events[this.next].time <= this.elapsed) {
+      this.dispatchEvent(new CustomEvent<TimelineEvent>('replay-event', { detail: this.events[this.next++] }));
+    }
+    this.dispatchEvent(new CustomEvent<number>('replay-progress', { detail: this.elapsed }));
+
+    if (this.elapsed >= this.duration) {
+      this.stop();
+      this.dispatchEvent(new CustomEvent('replay-end'));
+    }
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { LiveMusicGenerationConfig } from '@google/genai';
+import type { CrossfaderState, DeckId, ExportMarker, MasterFxParams, Prompt, SessionFile, TimelineEvent, WeightedPromptSnapshot } from '../types';
+
+/**
+ * Markers where the set of playing prompts changed, named after the new set
+ * and, in two-deck mode, prefixed with the deck.
+ */
+export function promptChangeMarkers(session: SessionFile): ExportMarker[] {
+  const markers: ExportMarker[] = [];
+  const previous = new Map<DeckId | undefined, string>();
+  for (const event of session.events) {
+    if (event.type !== 'prompts') continue;
+    const label = event.prompts
+      .filter((p) => p.weight > 0)
+      .map((p) => p.text)
+      .sort()
+      .join(', ');
+    if (label === previous.get(event.deck)) continue;
+    previous.set(event.deck, label);
+    const deckPrefix = event.deck ? `${event.deck}: ` : '';
+    markers.push({ time: event.time, label: deckPrefix + (label || 'No prompts') });
+  }
+  return markers;
+}
+
+/** The session's BPM, if one was set throughout and never changed. */
+export function sessionBpm(session: SessionFile): number | undefined {
+  const bpms = new Set<number | undefined>();
+  for (const event of session.events) {
+    if (event.type === 'config') bpms.add(event.config.bpm);
+  }
+  return bpms.size === 1 ? [...bpms][0] : undefined;
+}
+
+/**
+ * A timestamped log of every prompt and config change sent to the model,
+ * and of every change to the master effects and the crossfader.
+ */
+export class SessionTimeline {
+  private events: TimelineEvent[] = [];
+
+  reset() {
+    this.events = [];
+  }
+
+  /** Logs prompts sent to a deck; `deck` is left out outside two-deck mode. */
+  logPrompts(time: number, prompts: Prompt[], deck?: DeckId) {
+    const snapshot = prompts.map(({ text, weight }) => ({ text, weight }));
+    const last = this.lastOfType('prompts', (e) => e.deck === deck);
+    if (last && JSON.stringify(last.prompts) === JSON.stringify(snapshot)) return;
+    this.events.push(deck ? { time, type: 'prompts', prompts: snapshot, deck } : { time, type: 'prompts', prompts: snapshot });
+  }
+
+  logConfig(time: number, config: LiveMusicGenerationConfig) {
+    const last = this.lastOfType('config');
+    if (last && JSON.stringify(last.config) === JSON.stringify(config)) return;
+    this.events.push({ time, type: 'config', config: { ...config } });
+  }
+
+  logFx(time: number, fx: MasterFxParams) {
+    const last = this.lastOfType('fx');
+    if (last && JSON.stringify(last.fx) === JSON.stringify(fx)) return;
+    this.events.push({ time, type: 'fx', fx: { ...fx } });
+  }
+
+  logCrossfader(time: number, crossfader: CrossfaderState) {
+    const last = this.lastOfType('crossfader');
+    if (last && JSON.stringify(last.crossfader) === JSON.stringify(crossfader)) return;
+    this.events.push({ time, type: 'crossfader', crossfader: { ...crossfader } });
+  }
+
+  private lastOfType<T extends TimelineEvent['type']>(
+    type: T,
+    matches: (event: Extract<TimelineEvent, { type: T }>) => boolean = () => true,
+  ) {
+    for (let i = this.events.length - 1; i >= 0; i--) {
+      const event = this.events[i];
+      if (event.type === type && matches(event as Extract<TimelineEvent, { type: T }>)) {
+        return event as Extract<TimelineEvent, { type: T }>;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Builds the session file for a recording of `duration` seconds that starts
+   * `offset` seconds into the log (non-zero when old audio was dropped).
+   */
+  toSessionFile(duration: number, offset: number, sampleRate: number, numChannels: number): SessionFile {
+    // Deck prompts are logged ahead, at the time they will be heard, so the
+    // log is not always in order.
+    const sorted = [...this.events].sort((a, b) => a.time - b.time);
+    // Of the changes from before the recording start, the last of each type,
+    // and the last prompts of each deck, carry over to its first second.
+    const carried = new Map<string, TimelineEvent>();
+    for (const e of sorted) {
+      if (e.time >= offset) continue;
+      carried.set(e.type === 'prompts' ? `prompts-${e.deck}` : e.type, e);
+    }
+    const carriedEvents = new Set(carried.values());
+    const events = sorted
+      .filter((e) => e.time >= offset || carriedEvents.has(e))
+      .map((e) => ({ ...e, time: Math.max(0, e.time - offset) }));
+
+    const seconds: WeightedPromptSnapshot[][] = [];
+    const current = new Map<DeckId | undefined, WeightedPromptSnapshot[]>();
+    let next = 0;
+    for (let second = 0; second < Math.ceil(duration); second++) {
+      // Each second lists what played for most of it: what was in effect at its middle.
+      while (next < events.length && events[next].time <= second + 0.5) {
+        const event = events[next++];
+        if (event.type === 'prompts') current.set(event.deck, event.prompts);
+      }
+      seconds.push([...current.values()].flat());
+    }
+
+    return {
+      format: 'promptdj-session',
+      version: 1,
+      createdAt: new Date().toISOString(),
+      sampleRate,
+      numChannels,
+      duration,
+      events,
+      seconds,
+    };
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { TruePeakDetector, dbToGain } from './LoudnessMeter';
+
+/** Normalized exports are limited to this true peak, in dBTP. */
+export const TRUE_PEAK_CEILING = -1;
+
+/** How far ahead the limiter looks, which is also how long gain takes to drop. */
+const LOOKAHEAD_SECONDS = 0.005;
+/** Time constant for the gain to recover after a peak. */
+const RELEASE_SECONDS = 0.1;
+
+/**
+ * A lookahead limiter that keeps the true peak of streaming planar audio
+ * under a ceiling. The gain needed at each peak is spread over the lookahead
+ * window by a sliding minimum and a moving average, so it is already in
+ * place when the peak arrives, then released smoothly. Output lags input by
+ * the lookahead; `flush` returns the tail.
+ */
+export class TruePeakLimiter {
+  private readonly ceiling: number;
+  private readonly window: number;
+  private readonly release: number;
+  private readonly detector: TruePeakDetector;
+  /** Input delayed until its gain is known, as a ring per channel. */
+  private readonly delay: Float32Array[];
+  /** Sliding-minimum deque of [frame, gain], oldest first. */
+  private minQueue: [number, number][] = [];
+  /** The last `window` sliding minima, as a ring, and their sum. */
+  private readonly minima: Float64Array;
+  private minimaSum: number;
+  private gain = 1;
+  private frame = 0;
+
+  constructor(sampleRate: number, private readonly numChannels: number, ceilingDb: number) {
+    this.ceiling = dbToGain(ceilingDb);
+    this.window = Math.max(1, Math.round(LOOKAHEAD_SECONDS * sampleRate));
+    this.release = Math.exp(-1 / (RELEASE_SECONDS * sampleRate));
+    this.detector = new TruePeakDetector(numChannels);
+    // Peaks are reported DELAY frames late, so the audio waits that much longer.
+    const delayFrames = this.window - 1 + TruePeakDetector.DELAY;
+    this.delay = Array.from({ length: numChannels }, () => new Float32Array(delayFrames + 1));
+    this.minima = new Float64Array(this.window).fill(1);
+    this.minimaSum = this.window;
+  }
+
+  private get latency() {
+    return this.delay[0].length - 1;
+  }
+
+  process(channels: Float32Array[]): Float32Array[] {
+    const frames = channels[0].length;
+    const peaks = this.detector.framePeaks(channels);
+    const output = channels.map(() => new Float32Array(frames));
+    for (let i = 0; i < frames; i++) {
+      const required = peaks[i] > this.ceiling ? this.ceiling / peaks[i] : 1;
+      const gain = this.nextGain(required);
+      const slot = this.frame % this.delay[0].length;
+      const outSlot = (this.frame + 1) % this.delay[0].length;
+      for (let ch = 0; ch < this.numChannels; ch++) {
+        this.delay[ch][slot] = channels[ch][i];
+        output[ch][i] = this.delay[ch][outSlot] * gain;
+      }
+      this.frame++;
+    }
+    // The first frames out are the silence the delay line started with.
+    const skip = Math.max(0, this.latency - (this.frame - frames));
+    return output.map((samples) => samples.subarray(Math.min(skip, frames)));
+  }
+
+  /** Pushes the audio still in the delay line through. */
+  flush(): Float32Array[] {
+    const tail = Array.from({ length: this.numChannels }, () => new Float32Array(this.latency));
+    return this.process(tail);
+  }
+
+  private nextGain(required: number) {
+    const queue = this.minQueue;
+    while (queue.length > 0 && queue[queue.length - 1][1] >= required) queue.pop();
+    queue.push([this.frame, required]);
+    if (queue[0][0] <= this.frame - this.window) queue.shift();
+    const minimum = queue[0][1];
+
+    const slot = this.frame % this.window;
+    this.minimaSum += minimum - this.minima[slot];
+    this.minima[slot] = minimum;
+    const target = Math.min(1, this.minimaSum / this.window);
+
+    this.gain = target < this.gain ? target : target + (this.gain - target) * this.release;
+    return this.gain;
+  }
+}
@@ -5,6 +5,7 @@
 
 // FIX: Aliased Blob from @google/genai to avoid conflict with the global Blob type.
 import type {Blob as GoogleGenAIBlob} from '@google/genai';
+import type {ExportMetadata} from '../types';
 
 function encode(bytes: Uint8Array) {
   let binary = '';
@@ -29,8 +30,8 @@ function createBlob(data: Float32Array): GoogleGenAIBlob {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    // convert float32 -1 to 1 to int16 -32768 to 32767
-    int16[i] = data[i] * 32768;
+    // convert float32 -1 to 1 to int16 -32768 to 32767, clipping overs
+    int16[i] = Math.max(-1, Math.min(1, data[i])) * 32767;
   }
 
   return {
@@ -39,36 +40,27 @@ function createBlob(data: Float32Array): GoogleGenAIBlob {
   };
 }
 
+/** Splits interleaved 16-bit PCM into float channels in a single pass. */
+function deinterleave(pcm: Int16Array, numChannels: number): Float32Array[] {
+  const frames = Math.floor(pcm.length / numChannels);
+  const channels = Array.from({ length: numChannels }, () => new Float32Array(frames));
+  for (let i = 0, j = 0; i < frames; i++) {
+    for (let ch = 0; ch < numChannels; ch++, j++) {
+      channels[ch][i] = pcm[j] / 32768.0;
+    }
+  }
+  return channels;
+}
+
 async function decodeAudioData(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const buffer = ctx.createBuffer(
-    numChannels,
-    data.length / 2 / numChannels,
-    sampleRate,
-  );
-
-  const dataInt16 = new Int16Array(data.buffer);
-  const l = dataInt16.length;
-  const dataFloat32 = new Float32Array(l);
-  for (let i = 0; i < l; i++) {
-    dataFloat32[i] = dataInt16[i] / 32768.0;
-  }
-  // Extract interleaved channels
-  if (numChannels === 0) {
-    buffer.copyToChannel(dataFloat32, 0);
-  } else {
-    for (let i = 0; i < numChannels; i++) {
-      const channel = dataFloat32.filter(
-        (_, index) => index % numChannels === i,
-      );
-      buffer.copyToChannel(channel, i);
-    }
-  }
-
+  const channels = deinterleave(new Int16Array(data.buffer, data.byteOffset, data.byteLength / 2), numChannels);
+  const buffer = ctx.createBuffer(numChannels, channels[0].length, sampleRate);
+  channels.forEach((samples, ch) => buffer.copyToChannel(samples, ch));
   return buffer;
 }
 
@@ -78,18 +70,22 @@ function writeString(view: DataView, offset: number, str: string) {
   }
 }
 
-function createWavBlob(
-  pcmData: Uint8Array,
+/**
+ * Builds the 44-byte header of a WAV file. A `bitDepth` of 32 is IEEE float,
+ * the rest are PCM. `trailingSize` counts any chunks written after the data.
+ */
+function createWavHeader(
+  dataSize: number,
   numChannels: number,
   sampleRate: number,
-): Blob {
-  const bitDepth = 16;
+  bitDepth = 16,
+  trailingSize = 0,
+): DataView {
   const bytesPerSample = bitDepth / 8;
   const blockAlign = numChannels * bytesPerSample;
   const byteRate = sampleRate * blockAlign;
-  const dataSize = pcmData.length;
   // 44 bytes for header, but the RIFF chunk size is fileSize - 8
-  const fileSize = 36 + dataSize; 
+  const fileSize = 36 + dataSize + trailingSize;
 
   const buffer = new ArrayBuffer(44);
   const view = new DataView(buffer);
@@ -104,8 +100,8 @@ function createWavBlob(
   writeString(view, 12, 'fmt ');
   // Size of the FMT chunk (16 for PCM)
   view.setUint32(16, 16, true);
-  // Audio format (1 for PCM)
-  view.setUint16(20, 1, true);
+  // Audio format (1 for PCM, 3 for IEEE float)
+  view.setUint16(20, bitDepth === 32 ? 3 : 1, true);
   // Number of channels
   view.setUint16(22, numChannels, true);
   // Sample rate
@@ -121,8 +117,140 @@ function createWavBlob(
   // Size of the data chunk
   view.setUint32(40, dataSize, true);
 
-  return new (window.Blob)([view, pcmData], { type: 'audio/wav' });
+  return view;
+}
+
+/** Wraps a RIFF chunk body with its id and size, padding it to even length. */
+function riffChunk(id: string, body: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + body.length + (body.length % 2));
+  const view = new DataView(chunk.buffer);
+  writeString(view, 0, id);
+  view.setUint32(4, body.length, true);
+  chunk.set(body, 8);
+  return chunk;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/** A null-terminated UTF-8 string, as RIFF text chunks store them. */
+function zString(text: string): Uint8Array {
+  return concatBytes([new TextEncoder().encode(text), new Uint8Array(1)]);
+}
+
+function listChunk(type: string, subchunks: Uint8Array[]): Uint8Array {
+  return riffChunk('LIST', concatBytes([new TextEncoder().encode(type), ...subchunks]));
 }
 
+/**
+ * Builds the chunks that follow the audio data of a WAV: `LIST/INFO` with
+ * the title, style and prompts, `cue ` points with `LIST/adtl` labels for
+ * the markers, and an `acid` chunk with the tempo when it is known.
+ */
+function createWavMetadataChunks(
+  metadata: ExportMetadata,
+  sampleRate: number,
+  durationSeconds: number,
+): Uint8Array {
+  const prompts = metadata.prompts
+    .map(({ text, weight }) => `${text} (${weight.toFixed(2)})`)
+    .join(', ');
+  const info = [
+    riffChunk('INAM', zString(metadata.title)),
+    metadata.styleName ? riffChunk('IGNR', zString(metadata.styleName)) : null,
+    prompts ? riffChunk('ICMT', zString(prompts)) : null,
+    riffChunk('ISFT', zString('PromptDJ MIDI')),
+    riffChunk('ICRD', zString(new Date().toISOString().slice(0, 10))),
+  ].filter((chunk): chunk is Uint8Array => chunk !== null);
+  const chunks = [listChunk('INFO', info)];
+
+  if (metadata.markers.length > 0) {
+    const cue = new DataView(new ArrayBuffer(4 + 24 * metadata.markers.length));
+    cue.setUint32(0, metadata.markers.length, true);
+    metadata.markers.forEach((marker, i) => {
+      const offset = 4 + 24 * i;
+      const position = Math.round(marker.time * sampleRate);
+      cue.setUint32(offset, i + 1, true); // Cue point id
+      cue.setUint32(offset + 4, position, true);
+      writeString(cue, offset + 8, 'data');
+      cue.setUint32(offset + 12, 0, true); // Chunk start
+      cue.setUint32(offset + 16, 0, true); // Block start
+      cue.setUint32(offset + 20, position, true); // Sample offset
+    });
+    chunks.push(riffChunk('cue ', new Uint8Array(cue.buffer)));
+    chunks.push(listChunk('adtl', metadata.markers.map((marker, i) => {
+      const id = new Uint8Array(4);
+      new DataView(id.buffer).setUint32(0, i + 1, true);
+      return riffChunk('labl', concatBytes([id, zString(marker.label)]));
+    })));
+  }
+
+  if (metadata.bpm) {
+    const acid = new DataView(new ArrayBuffer(24));
+    // Flags: 0x01 one-shot, 0x04 stretch. Loops stretch to the project tempo.
+    acid.setUint32(0, metadata.loop ? 0x04 : 0x01, true);
+    acid.setUint16(4, 60, true); // Root note, ignored without its flag
+    acid.setUint16(6, 0x8000, true);
+    acid.setFloat32(8, 0, true);
+    acid.setUint32(12, Math.round((durationSeconds * metadata.bpm) / 60), true); // Beats
+    acid.setUint16(16, 4, true); // Meter denominator
+    acid.setUint16(18, 4, true); // Meter numerator
+    acid.setFloat32(20, metadata.bpm, true);
+    chunks.push(riffChunk('acid', new Uint8Array(acid.buffer)));
+  }
+
+  return concatBytes(chunks);
+}
+
+function createWavBlob(
+  pcmData: Uint8Array,
+  numChannels: number,
+  sampleRate: number,
+  metadata?: ExportMetadata,
+): Blob {
+  const durationSeconds = pcmData.length / (numChannels * 2 * sampleRate);
+  // The data chunk is padded to even length before any chunk that follows.
+  const trailing = metadata
+    ? concatBytes([new Uint8Array(pcmData.length % 2), createWavMetadataChunks(metadata, sampleRate, durationSeconds)])
+    : new Uint8Array(0);
+  const view = createWavHeader(pcmData.length, numChannels, sampleRate, 16, trailing.length);
+  return new (window.Blob)([view, pcmData, trailing], { type: 'audio/wav' });
+}
+
+
+/**
+ * Cuts `loopFrames` frames of interleaved PCM starting at `startFrame` into a
+ * seamless loop. The audio that follows the loop end is blended into the loop
+ * start with an equal-power crossfade, so wrapping around continues the
+ * music instead of clicking. Needs `crossfadeFrames` of audio past the end.
+ */
+function createSeamlessLoop(
+  pcm: Int16Array,
+  numChannels: number,
+  startFrame: number,
+  loopFrames: number,
+  crossfadeFrames: number,
+): Int16Array {
+  const loop = pcm.slice(startFrame * numChannels, (startFrame + loopFrames) * numChannels);
+  const tailStart = (startFrame + loopFrames) * numChannels;
+  for (let frame = 0; frame < crossfadeFrames; frame++) {
+    const t = (frame + 0.5) / crossfadeFrames;
+    const fadeIn = Math.sin((t * Math.PI) / 2);
+    const fadeOut = Math.cos((t * Math.PI) / 2);
+    for (let ch = 0; ch < numChannels; ch++) {
+      const i = frame * numChannels + ch;
+      const mixed = loop[i] * fadeIn + pcm[tailStart + i] * fadeOut;
+      loop[i] = Math.max(-32768, Math.min(32767, Math.round(mixed)));
+    }
+  }
+  return loop;
+}
 
-export {createBlob, decode, decodeAudioData, encode, createWavBlob};
\ No newline at end of file
+export {createBlob, concatBytes, createSeamlessLoop, decode, decodeAudioData, deinterleave, encode, createWavBlob, createWavHeader, createWavMetadataChunks};
\ No newline at end of file
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { CrossfaderCurve, CrossfaderState } from '../types';
+
+export const CROSSFADER_CURVES: CrossfaderCurve[] = ['equal-power', 'linear', 'cut'];
+
+export const DEFAULT_CROSSFADER: CrossfaderState = { position: 0, curve: 'equal-power' };
+
+/** How much of the travel the cut curve spends fading, at each end. */
+const CUT_FADE = 1 / 16;
+
+/**
+ * The gains of deck A and deck B at a crossfader position from 0 (all A)
+ * to 1 (all B). Equal-power keeps the loudness steady through the middle,
+ * linear dips there, and cut keeps both decks up until the very ends.
+ */
+export function crossfaderGains({ position, curve }: CrossfaderState): [number, number] {
+  const p = Math.max(0, Math.min(1, position));
+  switch (curve) {
+    case 'linear':
+      return [1 - p, p];
+    case 'equal-power':
+      return [Math.cos(p * Math.PI / 2), Math.sin(p * Math.PI / 2)];
+    case 'cut':
+      return [Math.min(1, (1 - p) / CUT_FADE), Math.min(1, p / CUT_FADE)];
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExportMetadata, ExportOptions } from '../types';
+import { createExportEncoder } from './ExportEncoder';
+import { LoudnessMeter, dbToGain } from './LoudnessMeter';
+import { Resampler } from './Resampler';
+import { TRUE_PEAK_CEILING, TruePeakLimiter } from './TruePeakLimiter';
+
+export interface ExportRequest {
+  /** Interleaved 16-bit PCM, without a header. */
+  pcm: Blob;
+  sampleRate: number;
+  numChannels: number;
+  options: ExportOptions;
+  metadata?: ExportMetadata;
+}
+
+export type ExportResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; blob: Blob }
+  | { type: 'error'; message: string };
+
+/** Source frames read and encoded at a time. */
+const BLOCK_FRAMES = 48000;
+
+/** Splits interleaved PCM into float channels, mixing to the target count. */
+function toPlanar(pcm: Int16Array, sourceChannels: number, targetChannels: number): Float32Array[] {
+  const frames = pcm.length / sourceChannels;
+  return Array.from({ length: targetChannels }, (_, ch) => {
+    const out = new Float32Array(frames);
+    for (let i = 0; i < frames; i++) {
+      if (targetChannels === 1) {
+        let sum = 0;
+        for (let c = 0; c < sourceChannels; c++) sum += pcm[i * sourceChannels + c];
+        out[i] = sum / sourceChannels / 32768;
+      } else {
+        out[i] = pcm[i * sourceChannels + Math.min(ch, sourceChannels - 1)] / 32768;
+      }
+    }
+    return out;
+  });
+}
+
+/** Reads the PCM block by block as planar float audio with `targetChannels`. */
+async function forEachBlock(
+  { pcm, numChannels }: ExportRequest,
+  targetChannels: number,
+  callback: (channels: Float32Array[], progress: number) => Promise<void>,
+) {
+  const frameBytes = numChannels * 2;
+  const totalFrames = Math.floor(pcm.size / frameBytes);
+  for (let frame = 0; frame < totalFrames; frame += BLOCK_FRAMES) {
+    const end = Math.min(totalFrames, frame + BLOCK_FRAMES);
+    const bytes = await pcm.slice(frame * frameBytes, end * frameBytes).arrayBuffer();
+    await callback(toPlanar(new Int16Array(bytes), numChannels, targetChannels), end / totalFrames);
+  }
+}
+
+function postProgress(progress: number) {
+  self.postMessage({ type: 'progress', progress } satisfies ExportResponse);
+}
+
+/** Measures the integrated loudness of the audio as it will be exported. */
+async function measureLoudness(request: ExportRequest, onProgress: (progress: number) => void) {
+  const meter = new LoudnessMeter(request.sampleRate, request.options.numChannels);
+  await forEachBlock(request, request.options.numChannels, async (channels, progress) => {
+    meter.process(channels);
+    onProgress(progress);
+  });
+  return meter.integrated;
+}
+
+/**
+ * Encodes the export. With a loudness target, a first pass measures the
+ * audio and the second applies the gain to reach the target, then limits
+ * the true peak so the added gain does not clip.
+ */
+async function runExport(request: ExportRequest): Promise<Blob> {
+  const { sampleRate, options, metadata } = request;
+  const normalize = options.normalizeLufs !== null;
+  let gain = 1;
+  if (options.normalizeLufs !== null) {
+    const loudness = await measureLoudness(request, (progress) => postProgress(progress / 2));
+    if (Number.isFinite(loudness)) gain = dbToGain(options.normalizeLufs - loudness);
+  }
+
+  const encoder = createExportEncoder(options, metadata);
+  const resampler = new Resampler(sampleRate, options.sampleRate, options.numChannels);
+  const limiter = normalize ? new TruePeakLimiter(options.sampleRate, options.numChannels, TRUE_PEAK_CEILING) : null;
+  const finishBlock = (channels: Float32Array[]) => {
+    if (!limiter) return channels;
+    channels.forEach((samples) => samples.forEach((s, i) => samples[i] = s * gain));
+    return limiter.process(channels);
+  };
+
+  await forEachBlock(request, options.numChannels, async (channels, progress) => {
+    await encoder.encode(finishBlock(resampler.process(channels)));
+    postProgress(normalize ? 0.5 + progress / 2 : progress);
+  });
+  await encoder.encode(finishBlock(resampler.flush()));
+  if (limiter) await encoder.encode(limiter.flush());
+  return encoder.finish();
+}
+
+self.onmessage = async (e: MessageEvent<ExportRequest>) => {
+  try {
+    const blob = await runExport(e.data);
+    self.postMessage({ type: 'done', blob } satisfies ExportResponse);
+  } catch (error) {
+    console.error('Export failed', error);
+    self.postMessage({ type: 'error', message: String(error) } satisfies ExportResponse);
+  }
+};
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MidiMapping, PadMode } from '../types';
+
+/** Mappings for a controller's factory layout, on whichever channel it sends. */
+export interface MidiPreset {
+  name: string;
+  /** Matches the names the controller's input has on different systems. */
+  match: RegExp;
+  mappings: MidiMapping[];
+}
+
+function knob(target: string, cc: number): MidiMapping {
+  return { target, binding: { device: null, channel: null, type: 'cc', number: cc } };
+}
+
+function pad(target: string, note: number, padMode: PadMode = 'momentary'): MidiMapping {
+  return { target, binding: { device: null, channel: null, type: 'note', number: note }, padMode };
+}
+
+/** Maps `ccs` onto prompts from `first` upwards. */
+function prompts(first: number, ccs: number[]) {
+  return ccs.map((cc, i) => knob(`prompt-${first + i}`, cc));
+}
+
+export const MIDI_PRESETS: MidiPreset[] = [
+  {
+    // Faders play the first eight prompts, the top knobs the next eight, the
+    // middle knobs the effects, the bottom knobs generation, and the master
+    // fader crossfades. The bank buttons step through styles.
+    name: 'Akai MIDImix',
+    match: /midi ?mix/i,
+    mappings: [
+      ...prompts(0, [19, 23, 27, 31, 49, 53, 57, 61]),
+      ...prompts(8, [16, 20, 24, 28, 46, 50, 54, 58]),
+      knob('fx:eqLow', 17),
+      knob('fx:eqMid', 21),
+      knob('fx:eqHigh', 25),
+      knob('fx:filter', 29),
+      knob('fx:resonance', 47),
+      knob('fx:delayMix', 51),
+      knob('fx:delayFeedback', 55),
+      knob('fx:reverbMix', 59),
+      knob('gen:density', 18),
+      knob('gen:brightness', 22),
+      knob('gen:guidance', 26),
+      knob('gen:temperature', 30),
+      knob('gen:bpm', 48),
+      knob('gen:topK', 52),
+      knob('gen:scale', 56),
+      knob('fx:limiterCeiling', 60),
+      knob('crossfader', 62),
+      pad('action:previousStyle', 25),
+      pad('action:nextStyle', 26),
+    ],
+  },
+  {
+    // Faders play the first eight prompts and knobs the next eight. Play
+    // starts and pauses, the track buttons step through styles, and cycle
+    // randomizes.
+    name: 'Korg nanoKONTROL2',
+    match: /nanokontrol ?2/i,
+    mappings: [
+      ...prompts(0, [0, 1, 2, 3, 4, 5, 6, 7]),
+      ...prompts(8, [16, 17, 18, 19, 20, 21, 22, 23]),
+      knob('action:playPause', 41),
+      knob('action:previousStyle', 58),
+      knob('action:nextStyle', 59),
+      knob('action:randomize', 46),
+    ],
+  },
+  {
+    // Faders play the first eight prompts and the top knobs the next eight,
+    // the middle knobs run generation and the bottom knobs the effects, and
+    // the pads hold the first eight prompts.
+    name: 'Novation Launch Control XL',
+    match: /launch ?control ?xl/i,
+    mappings: [
+      ...prompts(0, [77, 78, 79, 80, 81, 82, 83, 84]),
+      ...prompts(8, [13, 14, 15, 16, 17, 18, 19, 20]),
+      knob('gen:density', 29),
+      knob('gen:brightness', 30),
+      knob('gen:guidance', 31),
+      knob('gen:temperature', 32),
+      knob('gen:bpm', 33),
+      knob('gen:topK', 34),
+      knob('gen:scale', 35),
+      knob('fx:delayFeedback', 36),
+      knob('fx:eqLow', 49),
+      knob('fx:eqMid', 50),
+      knob('fx:eqHigh', 51),
+      knob('fx:filter', 52),
+      knob('fx:resonance', 53),
+      knob('fx:delayMix', 54),
+      knob('fx:reverbMix', 55),
+      knob('crossfader', 56),
+      ...[41, 42, 43, 44, 57, 58, 59, 60].map((note, i) => pad(`prompt-${i}`, note)),
+    ],
+  },
+  {
+    // The top knobs play the first eight prompts and the bottom knobs the
+    // next eight; the pads switch the first eight on and off.
+    name: 'Novation Launch Control',
+    match: /launch ?control(?! ?xl)/i,
+    mappings: [
+      ...prompts(0, [21, 22, 23, 24, 25, 26, 27, 28]),
+      ...prompts(8, [41, 42, 43, 44, 45, 46, 47, 48]),
+      ...[9, 10, 11, 12, 25, 26, 27, 28].map((note, i) => pad(`prompt-${i}`, note, 'toggle')),
+    ],
+  },
+];
+
+export function findPreset(device: string): MidiPreset | null {
+  return MIDI_PRESETS.find((preset) => preset.match.test(device)) ?? null;
+}
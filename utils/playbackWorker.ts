@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { decode, deinterleave } from './audio';
+
+export interface PlaybackRequest {
+  /** Base64 interleaved 16-bit PCM, as the model sends it. */
+  data: string;
+  numChannels: number;
+  /** Echoed back, so chunks decoded before a flush can be told apart. */
+  generation: number;
+}
+
+export interface PlaybackResponse {
+  bytes: Uint8Array;
+  channels: Float32Array[];
+  generation: number;
+}
+
+self.onmessage = (e: MessageEvent<PlaybackRequest>) => {
+  const { data, numChannels, generation } = e.data;
+  const bytes = decode(data);
+  const channels = deinterleave(new Int16Array(bytes.buffer), numChannels);
+  self.postMessage(
+    { bytes, channels, generation } satisfies PlaybackResponse,
+    { transfer: [bytes.buffer, ...channels.map((samples) => samples.buffer)] },
+  );
+};
@@ -5,6 +5,8 @@
 /**
  * Throttles a callback to be called at most once per `delay` milliseconds.
  * Also returns the result of the last "fresh" call...
+ * A call that lands inside the window is not lost: the latest arguments are
+ * replayed once the window closes, so the final value always gets through.
  */
 export function throttle<T extends (...args: Parameters<T>) => ReturnType<T>>(
   func: T,
@@ -12,12 +14,25 @@ export function throttle<T extends (...args: Parameters<T>) => ReturnType<T>>(
 ): (...args: Parameters<T>) => ReturnType<T> {
   let lastCall = -Infinity;
   let lastResult: ReturnType<T>;
+  let trailingTimer: ReturnType<typeof setTimeout> | null = null;
+  let trailingArgs: Parameters<T> | null = null;
   return (...args: Parameters<T>) => {
     const now = Date.now();
     const timeSinceLastCall = now - lastCall;
     if (timeSinceLastCall >= delay) {
+      if (trailingTimer) clearTimeout(trailingTimer);
+      trailingTimer = null;
       lastResult = func(...args);
       lastCall = now;
+    } else {
+      trailingArgs = args;
+      if (!trailingTimer) {
+        trailingTimer = setTimeout(() => {
+          trailingTimer = null;
+          lastResult = func(...trailingArgs!);
+          lastCall = Date.now();
+        }, delay - timeSinceLastCall);
+      }
     }
     return lastResult;
   };